@@ -0,0 +1,56 @@
+// Headless balance report: plays autopilot runs against the difficulty curve and prints
+// survival times per stage. Loads the game code through Vite so JSON and TS imports
+// resolve exactly as they do in the app.
+//
+//   npm run balance -- --runs 2000 --reaction 12 --precision 3 --horizon 40 --seed 1
+//   npm run balance -- --curve my-curve.json --max-seconds 300
+
+import { readFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+import { createServer } from 'vite'
+
+const { values } = parseArgs({
+  options: {
+    runs: { type: 'string' },
+    seed: { type: 'string' },
+    reaction: { type: 'string' },
+    precision: { type: 'string' },
+    horizon: { type: 'string' },
+    'max-seconds': { type: 'string' },
+    curve: { type: 'string' },
+    json: { type: 'boolean', default: false }
+  }
+})
+
+function number(name) {
+  const value = Number(values[name])
+  if (!Number.isFinite(value) || value < 0) throw new Error(`--${name} must be a number`)
+  return value
+}
+
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  // Nothing here runs in a browser, so there are no dependencies to pre-bundle
+  optimizeDeps: { noDiscovery: true },
+  logLevel: 'error'
+})
+
+try {
+  const { runBalance, formatBalanceReport, DEFAULT_BALANCE } = await server.ssrLoadModule('/src/game/balance.ts')
+  const { TICK_RATE } = await server.ssrLoadModule('/src/game/constants.ts')
+
+  const options = { ...DEFAULT_BALANCE, autopilot: { ...DEFAULT_BALANCE.autopilot } }
+  if (values.runs) options.runs = number('runs')
+  if (values.seed) options.firstSeed = number('seed')
+  if (values.reaction) options.autopilot.reactionTicks = Math.max(1, number('reaction'))
+  if (values.precision) options.autopilot.precisionTicks = number('precision')
+  if (values.horizon) options.autopilot.horizon = Math.max(1, number('horizon'))
+  if (values['max-seconds']) options.maxTicks = number('max-seconds') * TICK_RATE
+  if (values.curve) options.curve = JSON.parse(await readFile(values.curve, 'utf8'))
+
+  const report = runBalance(options)
+  console.log(values.json ? JSON.stringify(report, null, 2) : formatBalanceReport(report))
+} finally {
+  await server.close()
+}
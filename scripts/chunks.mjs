@@ -0,0 +1,37 @@
+// Validates the authored obstacle chunks on every lane count and saves which ones each
+// track uses to src/game/chunkLibraries.json, so the game never runs the search itself.
+// Run it after editing chunks.json or anything that changes how the player moves.
+//
+//   npm run chunks
+
+import { writeFile } from 'node:fs/promises'
+import { createServer } from 'vite'
+
+const OUTPUT = new URL('../src/game/chunkLibraries.json', import.meta.url)
+
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  // Nothing here runs in a browser, so there are no dependencies to pre-bundle
+  optimizeDeps: { noDiscovery: true },
+  logLevel: 'error'
+})
+
+try {
+  const { buildChunkLibrary, parseChunks, validateChunkLibraries } = await server.ssrLoadModule('/src/game/chunks.ts')
+  const { default: chunkData } = await server.ssrLoadModule('/src/game/chunks.json')
+
+  // Chunks are authored for the starting track, so a rejection there is a design problem
+  const { rejected } = buildChunkLibrary(parseChunks(chunkData))
+  for (const { id, speeds } of rejected) {
+    console.log(`Chunk "${id}" rejected: no survivable path at speed ${speeds.join(', ')}`)
+  }
+
+  const libraries = validateChunkLibraries()
+  await writeFile(OUTPUT, `${JSON.stringify(libraries, null, 2)}\n`)
+  for (const [laneCount, ids] of Object.entries(libraries)) {
+    console.log(`${laneCount} lanes: ${ids.length} of ${chunkData.length} chunks`)
+  }
+} finally {
+  await server.close()
+}
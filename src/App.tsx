@@ -1,619 +1,715 @@
 import { useState, useRef, useCallback, useEffect, Suspense, useMemo } from 'react'
-import { Canvas, useFrame, useThree } from '@react-three/fiber'
+import { Canvas } from '@react-three/fiber'
+import { COMBO_TICKS, HUD_UPDATE_TICKS, POWER_UP_TICKS } from './game/constants'
+import type { GameMode, PowerUpType, Replay, SimulationSnapshot } from './game/types'
 import {
-  OrbitControls,
-  Environment,
-  Float,
-  MeshDistortMaterial,
-  Text,
-  Stars,
-  Trail
-} from '@react-three/drei'
-import * as THREE from 'three'
-
-// Game Constants
-const LANE_WIDTH = 2.5
-const LANES = [-LANE_WIDTH, 0, LANE_WIDTH]
-const OBSTACLE_SPEED = 0.15
-const SPAWN_INTERVAL = 1500
-const JUMP_FORCE = 0.25
-const GRAVITY = 0.012
-
-// Types
-interface Obstacle {
-  id: number
-  lane: number
-  z: number
-  type: 'crystal' | 'spike' | 'ring'
-  rotation: number
+  createSimulation,
+  queueInput,
+  advanceSimulation,
+  drainEvents,
+  getSnapshot,
+  getSongPosition,
+  type Simulation
+} from './game/simulation'
+import { createReplay, encodeReplay, decodeReplay } from './game/replay'
+import { createGhost, advanceGhost, getGhostSnapshot, type GhostSnapshot } from './game/ghost'
+import { createAutopilot, driveAutopilot } from './game/autopilot'
+import { courseFrom, formatCourseTime, type Course } from './game/course'
+import { BIOMES, sampleBiome } from './game/biomes'
+import { DAILY_BEAT_SYNC, dailyDate, dailySeed, formatDailyResult, summarizeRun } from './game/daily'
+import {
+  loadLeaderboard,
+  qualifiesForLeaderboard,
+  addLeaderboardEntry,
+  sanitizeInitials,
+  type LeaderboardEntry
+} from './storage/leaderboard'
+import Leaderboard from './components/Leaderboard'
+import ControlsSettings from './components/ControlsSettings'
+import SoundSettings from './components/SoundSettings'
+import {
+  actionsForKey,
+  formatBindings,
+  type ControlAction,
+  type InputBindings,
+  type InputDevice
+} from './input/bindings'
+import { useGamepad } from './input/useGamepad'
+import { loadBindings, saveBindings } from './storage/bindings'
+import { loadGhost, recordGhostRun } from './storage/ghost'
+import { createAudioEngine, type AudioEngine, type AudioSettings } from './audio/engine'
+import { loadAudioSettings, saveAudioSettings } from './storage/audio'
+import GraphicsSettings from './components/GraphicsSettings'
+import AccessibilitySettings from './components/AccessibilitySettings'
+import LiveRegion, { type Announcement } from './components/LiveRegion'
+import Versus from './components/Versus'
+import PerfOverlay from './components/PerfOverlay'
+import AchievementToasts, { type Toast } from './components/AchievementToasts'
+import AchievementsGallery from './components/AchievementsGallery'
+import GameScene from './scene/GameScene'
+import { AutoQuality, PerfProbe, type PerfStats } from './scene/performance'
+import {
+  QUALITY_PRESETS,
+  stepQuality,
+  type GraphicsSettings as GraphicsSettingsValue,
+  type QualityLevel
+} from './scene/quality'
+import { loadGraphicsSettings, saveGraphicsSettings } from './storage/graphics'
+import { hazardPalette, type AccessibilitySettings as AccessibilitySettingsValue } from './accessibility/settings'
+import { useReducedMotion } from './accessibility/useReducedMotion'
+import { loadAccessibilitySettings, saveAccessibilitySettings } from './storage/accessibility'
+import { BONUS_COLORS, BONUS_LABELS, COMBO_COLOR, GHOST_COLOR, POWER_UP_COLORS } from './scene/colors'
+import { ACHIEVEMENTS } from './achievements/definitions'
+import {
+  createTracker,
+  finishRun,
+  startRun,
+  trackEvent,
+  trackRun,
+  type AchievementTracker,
+  type Unlock
+} from './achievements/tracker'
+import { loadAchievements, saveAchievements } from './storage/achievements'
+import { currentStreak, hasPlayedDaily, loadDaily, recordDailyResult, startDailyAttempt } from './storage/daily'
+import { loadCourses, recordCourseScore, saveCourses } from './storage/courses'
+import CourseEditor from './components/CourseEditor'
+
+// HUD labels for active power-ups
+const POWER_UP_LABELS: Record<PowerUpType, string> = {
+  shield: 'SHIELD',
+  magnet: 'MAGNET',
+  slowmo: 'SLOW-MO'
 }
 
-// Player Cube Component
-function PlayerCube({
-  lane,
-  isJumping,
-  y,
-  gameOver
-}: {
-  lane: number
-  isJumping: boolean
-  y: number
-  gameOver: boolean
-}) {
-  const meshRef = useRef<THREE.Mesh>(null!)
-  const glowRef = useRef<THREE.Mesh>(null!)
-
-  useFrame((state, delta) => {
-    if (meshRef.current) {
-      // Smooth lane transition
-      meshRef.current.position.x = THREE.MathUtils.lerp(
-        meshRef.current.position.x,
-        LANES[lane],
-        0.15
-      )
-      meshRef.current.position.y = y
-
-      // Rotation animation
-      meshRef.current.rotation.x += delta * 2
-      meshRef.current.rotation.z += delta * 1.5
-
-      // Pulse scale based on jumping
-      const scale = isJumping ? 1.1 : 1 + Math.sin(state.clock.elapsedTime * 4) * 0.05
-      meshRef.current.scale.setScalar(scale)
-    }
-    if (glowRef.current) {
-      glowRef.current.position.x = meshRef.current.position.x
-      glowRef.current.position.y = y
-      glowRef.current.scale.setScalar(1.8 + Math.sin(state.clock.elapsedTime * 3) * 0.2)
-    }
-  })
-
-  return (
-    <group>
-      <Trail
-        width={2}
-        length={6}
-        color={gameOver ? '#ff2a6d' : '#05d9e8'}
-        attenuation={(t) => t * t}
-      >
-        <mesh ref={meshRef} position={[0, 0.5, 0]} castShadow>
-          <boxGeometry args={[0.6, 0.6, 0.6]} />
-          <meshStandardMaterial
-            color={gameOver ? '#ff2a6d' : '#05d9e8'}
-            emissive={gameOver ? '#ff2a6d' : '#05d9e8'}
-            emissiveIntensity={2}
-            metalness={0.9}
-            roughness={0.1}
-          />
-        </mesh>
-      </Trail>
-      <mesh ref={glowRef} position={[0, 0.5, 0]}>
-        <sphereGeometry args={[0.5, 16, 16]} />
-        <meshBasicMaterial
-          color={gameOver ? '#ff2a6d' : '#05d9e8'}
-          transparent
-          opacity={0.15}
-        />
-      </mesh>
-    </group>
-  )
+// High-contrast HUD: white on black buttons, and text outlined in black
+const HIGH_CONTRAST_BUTTON: React.CSSProperties = {
+  fontFamily: '"Orbitron", sans-serif',
+  color: '#ffffff',
+  border: '2px solid #ffffff',
+  background: '#000000'
 }
+const HIGH_CONTRAST_OUTLINE = '-2px -2px 0 #000000, 2px -2px 0 #000000, -2px 2px 0 #000000, 2px 2px 0 #000000'
 
-// Crystal Obstacle
-function CrystalObstacle({ position, rotation }: { position: [number, number, number], rotation: number }) {
-  const ref = useRef<THREE.Group>(null!)
+// Score interval between screen reader announcements
+const SCORE_ANNOUNCE_STEP = 1000
 
-  useFrame((_, delta) => {
-    if (ref.current) {
-      ref.current.rotation.y += delta
-    }
-  })
+// How long an unlock toast stays up, in milliseconds
+const TOAST_DURATION = 3000
 
-  return (
-    <group ref={ref} position={position} rotation={[0, rotation, 0]}>
-      <mesh castShadow>
-        <octahedronGeometry args={[0.8, 0]} />
-        <meshStandardMaterial
-          color="#ff2a6d"
-          emissive="#ff2a6d"
-          emissiveIntensity={1.5}
-          metalness={0.8}
-          roughness={0.2}
-          transparent
-          opacity={0.9}
-        />
-      </mesh>
-      <mesh scale={1.3}>
-        <octahedronGeometry args={[0.8, 0]} />
-        <meshBasicMaterial
-          color="#ff2a6d"
-          transparent
-          opacity={0.1}
-          wireframe
-        />
-      </mesh>
-    </group>
-  )
-}
+// How long the attract mode lingers on a crash before starting over, in milliseconds
+const ATTRACT_RESTART_DELAY = 2000
 
-// Spike Obstacle
-function SpikeObstacle({ position, rotation }: { position: [number, number, number], rotation: number }) {
-  const ref = useRef<THREE.Group>(null!)
-
-  useFrame((state) => {
-    if (ref.current) {
-      ref.current.rotation.y = state.clock.elapsedTime * 2
-      ref.current.position.y = position[1] + Math.sin(state.clock.elapsedTime * 3) * 0.2
-    }
-  })
+// Main App Component
+export default function App() {
+  const [gameState, setGameState] = useState<'idle' | 'playing' | 'paused' | 'gameover'>('idle')
+  // Seconds left before a paused run resumes, or null when not counting down
+  const [countdown, setCountdown] = useState<number | null>(null)
+  // Bumped on every reset so per-run effects fire even when nothing else changed
+  const [runId, setRunId] = useState(0)
+  const [gameMode, setGameMode] = useState<GameMode>('endless')
+  const [leaderboard, setLeaderboard] = useState(() => loadLeaderboard(gameMode))
+  const [highScore, setHighScore] = useState(() => leaderboard[0]?.score ?? 0)
+
+  // A finished run waiting for initials, and where the last saved run placed
+  const [pendingEntry, setPendingEntry] = useState<Omit<LeaderboardEntry, 'initials'> | null>(null)
+  const [initials, setInitials] = useState('')
+  const [savedRank, setSavedRank] = useState<number | null>(null)
+
+  // Created lazily so a new run isn't built on every render
+  const simulationRef = useRef<Simulation>(null!)
+  simulationRef.current ??= createSimulation()
+  const [snapshot, setSnapshot] = useState<SimulationSnapshot>(() => getSnapshot(simulationRef.current))
+  const animationRef = useRef<number>()
+  const { score } = snapshot
+
+  // Personal best run, raced as a ghost in ghost mode
+  const [ghostBest, setGhostBest] = useState(loadGhost)
+  const ghostRef = useRef<Simulation | null>(null)
+  const [ghostSnapshot, setGhostSnapshot] = useState<GhostSnapshot | null>(null)
+  const ghostGap = ghostSnapshot ? snapshot.distance - ghostSnapshot.distance : 0
+
+  // Replays: the one being watched, the last finished run, and the import box
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null)
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null)
+  const [replayCode, setReplayCode] = useState('')
+  const [replayMessage, setReplayMessage] = useState('')
+
+  // Daily Void: saved attempts and streak, and the day and kind of daily run in progress.
+  // Only the first non-practice run of the day is scored.
+  const [daily, setDaily] = useState(loadDaily)
+  const [dailyRun, setDailyRun] = useState<{ date: string, scored: boolean } | null>(null)
+  const [dailyMessage, setDailyMessage] = useState('')
+  const today = dailyDate()
+  const playedToday = hasPlayedDaily(daily, today)
+
+  // Hand-built courses, the editor they are made in, and the course being played and
+  // where along it the run started. Only runs from the start count towards a best.
+  const [courseLibrary, setCourseLibrary] = useState(loadCourses)
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [courseRun, setCourseRun] = useState<{ course: Course, from: number } | null>(null)
+
+  // Audio engine, created lazily like the simulation; settings persist between sessions
+  const audioRef = useRef<AudioEngine>(null!)
+  audioRef.current ??= createAudioEngine()
+  const [audioSettings, setAudioSettings] = useState(loadAudioSettings)
+
+  const updateAudioSettings = useCallback((next: AudioSettings) => {
+    setAudioSettings(next)
+    saveAudioSettings(next)
+  }, [])
 
-  return (
-    <group ref={ref} position={position} rotation={[0, rotation, Math.PI]}>
-      <mesh castShadow>
-        <coneGeometry args={[0.5, 1.5, 4]} />
-        <meshStandardMaterial
-          color="#d300c5"
-          emissive="#d300c5"
-          emissiveIntensity={1.5}
-          metalness={0.9}
-          roughness={0.1}
-        />
-      </mesh>
-      <mesh position={[0, -0.3, 0]} rotation={[Math.PI, 0, 0]}>
-        <coneGeometry args={[0.3, 0.8, 4]} />
-        <meshStandardMaterial
-          color="#7b2cbf"
-          emissive="#7b2cbf"
-          emissiveIntensity={1}
-          metalness={0.9}
-          roughness={0.1}
-        />
-      </mesh>
-    </group>
-  )
-}
+  useEffect(() => {
+    audioRef.current.applySettings(audioSettings)
+  }, [audioSettings])
+
+  // Rendering quality. Auto mode starts from high and moves with the measured frame rate.
+  const [graphicsSettings, setGraphicsSettings] = useState(loadGraphicsSettings)
+  // Free orbiting camera for development builds, never saved
+  const [debugCamera, setDebugCamera] = useState(false)
+  const [autoQuality, setAutoQuality] = useState<QualityLevel>('high')
+  const qualityLevel = graphicsSettings.quality === 'auto' ? autoQuality : graphicsSettings.quality
+  const quality = QUALITY_PRESETS[qualityLevel]
+  const [perfStats, setPerfStats] = useState<PerfStats | null>(null)
+
+  const updateGraphicsSettings = useCallback((next: GraphicsSettingsValue) => {
+    setGraphicsSettings(next)
+    saveGraphicsSettings(next)
+  }, [])
 
-// Ring Obstacle (you can pass through but must jump)
-function RingObstacle({ position, rotation }: { position: [number, number, number], rotation: number }) {
-  const ref = useRef<THREE.Mesh>(null!)
+  const stepAutoQuality = useCallback((direction: 1 | -1) => {
+    setAutoQuality(level => stepQuality(level, direction))
+  }, [])
 
-  useFrame((state) => {
-    if (ref.current) {
-      ref.current.rotation.x = state.clock.elapsedTime * 1.5
-      ref.current.rotation.z = rotation + state.clock.elapsedTime
-    }
-  })
+  // Accessibility: hazard palette and cues, motion, HUD contrast and announcements
+  const [accessibility, setAccessibility] = useState(loadAccessibilitySettings)
+  const reducedMotion = useReducedMotion(accessibility.reducedMotion)
+  const palette = hazardPalette(accessibility.palette)
+  const pulse = reducedMotion ? '' : ' animate-pulse'
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null)
 
-  return (
-    <mesh ref={ref} position={position}>
-      <torusGeometry args={[0.9, 0.15, 8, 32]} />
-      <meshStandardMaterial
-        color="#ffdd00"
-        emissive="#ffdd00"
-        emissiveIntensity={2}
-        metalness={0.95}
-        roughness={0.05}
-      />
-    </mesh>
-  )
-}
+  const updateAccessibility = useCallback((next: AccessibilitySettingsValue) => {
+    setAccessibility(next)
+    saveAccessibilitySettings(next)
+  }, [])
 
-// Ground with grid effect
-function Ground() {
-  const ref = useRef<THREE.Mesh>(null!)
+  const announce = useCallback((text: string) => {
+    setAnnouncement(prev => ({ id: (prev?.id ?? 0) + 1, text }))
+  }, [])
 
-  useFrame((state) => {
-    if (ref.current && ref.current.material instanceof THREE.ShaderMaterial) {
-      ref.current.material.uniforms.time.value = state.clock.elapsedTime
+  // Achievements and missions. The tracker is mutated as the run goes and saved on unlocks
+  // and at the end of every run.
+  const achievementsRef = useRef<AchievementTracker>(null!)
+  achievementsRef.current ??= createTracker(loadAchievements())
+  const [toasts, setToasts] = useState<Toast[]>([])
+  const nextToastId = useRef(0)
+
+  const showUnlocks = useCallback((unlocks: Unlock[]) => {
+    for (const unlock of unlocks) {
+      const toast = { id: nextToastId.current++, unlock }
+      setToasts(prev => [...prev, toast])
+      setTimeout(() => setToasts(prev => prev.filter(t => t !== toast)), TOAST_DURATION)
+      announce(unlock.kind === 'achievement'
+        ? `Achievement unlocked: ${unlock.achievement.title}`
+        : `Mission complete: ${unlock.mission.description}`)
     }
-  })
+  }, [announce])
+
+  // High-contrast HUD text is plain white with a hard black outline instead of a colored glow
+  const hudText = (color: string, glow?: string): React.CSSProperties => accessibility.highContrast
+    ? { fontFamily: '"Orbitron", sans-serif', color: '#ffffff', textShadow: HIGH_CONTRAST_OUTLINE }
+    : { fontFamily: '"Orbitron", sans-serif', color, textShadow: glow }
+
+  // Reset game. Ghost runs replay the personal best's seed so both face the same obstacles,
+  // and daily runs use the day's seed. A daily run is practice once today's attempt is used.
+  const resetGame = useCallback((
+    replay: Replay | null = null,
+    mode: GameMode = gameMode,
+    practice = false,
+    course = courseRun
+  ) => {
+    // Runs start from a click or key press, which is when browsers let audio begin
+    audioRef.current.unlock()
+    const ghost = !replay && mode === 'ghost' ? ghostBest : null
+    const date = !replay && mode === 'daily' ? dailyDate() : null
+    const played = !replay && mode === 'course' ? course : null
+    simulationRef.current = replay
+      ? createSimulation({ seed: replay.seed, playback: replay.inputs, beatSync: replay.beatSync })
+      : ghost
+        ? createSimulation({ seed: ghost.seed, beatSync: ghost.beatSync })
+        : date
+          ? createSimulation({ seed: dailySeed(date), beatSync: DAILY_BEAT_SYNC })
+          : played
+            ? createSimulation({ seed: played.course.seed, course: courseFrom(played.course, played.from) })
+            : createSimulation({ beatSync: audioSettings.beatSync })
+    ghostRef.current = ghost && createGhost(ghost)
+    const scored = date !== null && !practice && !hasPlayedDaily(loadDaily(), date)
+    if (date && scored) setDaily(startDailyAttempt(date))
+    setDailyRun(date ? { date, scored } : null)
+    setDailyMessage('')
+    setCourseRun(played)
+    // Replays and courses don't count towards achievements
+    if (!replay && !played) startRun(achievementsRef.current)
+    setGhostSnapshot(ghostRef.current && getGhostSnapshot(ghostRef.current))
+    setActiveReplay(replay)
+    setReplayMessage('')
+    setCountdown(null)
+    setRunId(prev => prev + 1)
+    setSnapshot(getSnapshot(simulationRef.current))
+  }, [audioSettings.beatSync, gameMode, ghostBest, courseRun])
+
+  // Start game in the current mode
+  const startGame = useCallback(() => {
+    resetGame()
+    setGameState('playing')
+  }, [resetGame])
 
-  const shaderMaterial = useMemo(() => {
-    return new THREE.ShaderMaterial({
-      uniforms: {
-        time: { value: 0 },
-        color1: { value: new THREE.Color('#0a0a0f') },
-        color2: { value: new THREE.Color('#05d9e8') },
-      },
-      vertexShader: `
-        varying vec2 vUv;
-        void main() {
-          vUv = uv;
-          gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-        }
-      `,
-      fragmentShader: `
-        uniform float time;
-        uniform vec3 color1;
-        uniform vec3 color2;
-        varying vec2 vUv;
-
-        void main() {
-          vec2 uv = vUv * 40.0;
-          uv.y += time * 3.0;
-
-          float lineX = smoothstep(0.0, 0.05, abs(fract(uv.x) - 0.5));
-          float lineY = smoothstep(0.0, 0.05, abs(fract(uv.y) - 0.5));
-          float grid = 1.0 - min(lineX, lineY);
-
-          float glow = 1.0 - vUv.y;
-          glow = pow(glow, 3.0);
-
-          vec3 finalColor = mix(color1, color2, grid * 0.5 + glow * 0.3);
-          gl_FragColor = vec4(finalColor, 1.0);
-        }
-      `
-    })
+  // Leave a finished or paused run for the title screen, back in endless mode
+  const goToMenu = useCallback(() => {
+    setCountdown(null)
+    setGameMode('endless')
+    setLeaderboard(loadLeaderboard('endless'))
+    setHighScore(loadLeaderboard('endless')[0]?.score ?? 0)
+    setGameState('idle')
   }, [])
 
-  return (
-    <mesh ref={ref} rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, -20]} receiveShadow>
-      <planeGeometry args={[30, 100]} />
-      <primitive object={shaderMaterial} attach="material" />
-    </mesh>
-  )
-}
+  // Switch modes and start
+  const startMode = useCallback((mode: GameMode) => {
+    setGameMode(mode)
+    setLeaderboard(loadLeaderboard(mode))
+    setHighScore(loadLeaderboard(mode)[0]?.score ?? 0)
+    resetGame(null, mode)
+    setGameState('playing')
+  }, [resetGame])
 
-// Side walls
-function SideWalls() {
-  return (
-    <>
-      {[-10, 10].map((x, i) => (
-        <mesh key={i} position={[x, 5, -20]} rotation={[0, x > 0 ? -Math.PI / 2 : Math.PI / 2, 0]}>
-          <planeGeometry args={[100, 15]} />
-          <meshStandardMaterial
-            color="#0a0a0f"
-            emissive="#05d9e8"
-            emissiveIntensity={0.03}
-            transparent
-            opacity={0.8}
-          />
-        </mesh>
-      ))}
-    </>
-  )
-}
+  // Daily Void, as today's scored attempt or as practice
+  const startDaily = useCallback((practice: boolean) => {
+    setGameMode('daily')
+    resetGame(null, 'daily', practice)
+    setGameState('playing')
+  }, [resetGame])
 
-// Floating decorative elements
-function FloatingDecorations() {
-  const particles = useMemo(() => {
-    const temp = []
-    for (let i = 0; i < 50; i++) {
-      temp.push({
-        position: [
-          (Math.random() - 0.5) * 20,
-          Math.random() * 10 + 2,
-          -Math.random() * 60 - 5
-        ] as [number, number, number],
-        scale: Math.random() * 0.15 + 0.05,
-        speed: Math.random() * 0.5 + 0.5
-      })
-    }
-    return temp
+  // Play a course from the start, or test-play it from a point along it
+  const startCourse = useCallback((course: Course, from: number) => {
+    setEditorOpen(false)
+    setGameMode('course')
+    resetGame(null, 'course', false, { course, from })
+    setGameState('playing')
+  }, [resetGame])
+
+  const updateCourses = useCallback((courses: Course[]) => {
+    setCourseLibrary(saveCourses(courses))
   }, [])
 
-  return (
-    <>
-      {particles.map((p, i) => (
-        <Float key={i} speed={p.speed} rotationIntensity={2} floatIntensity={1}>
-          <mesh position={p.position} scale={p.scale}>
-            <dodecahedronGeometry args={[1, 0]} />
-            <MeshDistortMaterial
-              color={i % 3 === 0 ? '#05d9e8' : i % 3 === 1 ? '#ff2a6d' : '#d300c5'}
-              emissive={i % 3 === 0 ? '#05d9e8' : i % 3 === 1 ? '#ff2a6d' : '#d300c5'}
-              emissiveIntensity={1}
-              distort={0.3}
-              speed={2}
-              metalness={0.8}
-              roughness={0.2}
-            />
-          </mesh>
-        </Float>
-      ))}
-    </>
-  )
-}
+  // Watch a recorded run
+  const watchReplay = useCallback((replay: Replay) => {
+    resetGame(replay)
+    setGameState('playing')
+  }, [resetGame])
 
-// Game scene
-function GameScene({
-  obstacles,
-  playerLane,
-  playerY,
-  isJumping,
-  gameOver,
-  score
-}: {
-  obstacles: Obstacle[]
-  playerLane: number
-  playerY: number
-  isJumping: boolean
-  gameOver: boolean
-  score: number
-}) {
-  const { camera } = useThree()
+  const importReplay = useCallback(() => {
+    try {
+      watchReplay(decodeReplay(replayCode))
+      setReplayCode('')
+    } catch (err) {
+      setReplayMessage(err instanceof Error ? err.message : 'Invalid replay')
+    }
+  }, [replayCode, watchReplay])
+
+  const saveEntry = useCallback(() => {
+    if (!pendingEntry) return
+    setSavedRank(addLeaderboardEntry(gameMode, { ...pendingEntry, initials }))
+    setLeaderboard(loadLeaderboard(gameMode))
+    setPendingEntry(null)
+  }, [pendingEntry, initials, gameMode])
+
+  const copyReplay = useCallback(() => {
+    if (!lastReplay) return
+    const code = encodeReplay(lastReplay)
+    navigator.clipboard.writeText(code).then(
+      () => setReplayMessage('REPLAY CODE COPIED'),
+      () => setReplayMessage(code)
+    )
+  }, [lastReplay])
+
+  const copyDailyResult = useCallback(() => {
+    if (!daily.result) return
+    const text = formatDailyResult(daily.result, currentStreak(daily, daily.result.date))
+    navigator.clipboard.writeText(text).then(
+      () => setDailyMessage('RESULT COPIED'),
+      () => setDailyMessage('COPY FAILED, SELECT THE TEXT ABOVE')
+    )
+  }, [daily])
+
+  // Announce difficulty tier changes
+  const [tierBanner, setTierBanner] = useState<string | null>(null)
+  const { tier } = snapshot
 
   useEffect(() => {
-    camera.position.set(0, 4, 6)
-    camera.lookAt(0, 1, -10)
-  }, [camera])
+    audioRef.current.setTier(tier)
+    if (runId === 0) return
+    setTierBanner(tier)
+    announce(`Entering ${tier}`)
+    const timeout = setTimeout(() => setTierBanner(null), 2500)
+    return () => clearTimeout(timeout)
+  }, [tier, runId, announce])
+
+  // Biome for the current distance, and a banner when a new one takes over
+  const { biome, look } = useMemo(() => sampleBiome(BIOMES, snapshot.distance), [snapshot.distance])
+  const [biomeBanner, setBiomeBanner] = useState<string | null>(null)
 
-  return (
-    <>
-      {/* Lighting */}
-      <ambientLight intensity={0.3} />
-      <directionalLight
-        position={[5, 10, 5]}
-        intensity={1}
-        castShadow
-        shadow-mapSize={[1024, 1024]}
-      />
-      <pointLight position={[0, 5, -10]} intensity={2} color="#05d9e8" />
-      <pointLight position={[-5, 3, -20]} intensity={1.5} color="#ff2a6d" />
-      <pointLight position={[5, 3, -30]} intensity={1.5} color="#d300c5" />
-
-      {/* Background */}
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
-
-      {/* Environment */}
-      <Ground />
-      <SideWalls />
-      <FloatingDecorations />
-
-      {/* Player */}
-      <PlayerCube
-        lane={playerLane}
-        isJumping={isJumping}
-        y={playerY}
-        gameOver={gameOver}
-      />
-
-      {/* Obstacles */}
-      {obstacles.map((obstacle) => {
-        const position: [number, number, number] = [
-          LANES[obstacle.lane],
-          obstacle.type === 'ring' ? 1.5 : 0.8,
-          obstacle.z
-        ]
-
-        switch (obstacle.type) {
-          case 'crystal':
-            return <CrystalObstacle key={obstacle.id} position={position} rotation={obstacle.rotation} />
-          case 'spike':
-            return <SpikeObstacle key={obstacle.id} position={position} rotation={obstacle.rotation} />
-          case 'ring':
-            return <RingObstacle key={obstacle.id} position={position} rotation={obstacle.rotation} />
-          default:
-            return null
-        }
-      })}
-
-      {/* Score display in 3D */}
-      <Text
-        position={[0, 6, -15]}
-        fontSize={1.5}
-        color="#05d9e8"
-        anchorX="center"
-        anchorY="middle"
-        outlineWidth={0.05}
-        outlineColor="#0a0a0f"
-      >
-        {score.toString().padStart(6, '0')}
-      </Text>
-
-      {/* Game Over Text */}
-      {gameOver && (
-        <Float speed={2} rotationIntensity={0.5} floatIntensity={0.5}>
-          <Text
-            position={[0, 3, -5]}
-            fontSize={0.8}
-            color="#ff2a6d"
-            anchorX="center"
-            anchorY="middle"
-            outlineWidth={0.03}
-            outlineColor="#0a0a0f"
-          >
-            GAME OVER
-          </Text>
-        </Float>
-      )}
-    </>
-  )
-}
+  useEffect(() => {
+    if (runId === 0) return
+    setBiomeBanner(biome.name)
+    announce(biome.name)
+    const timeout = setTimeout(() => setBiomeBanner(null), 2500)
+    return () => clearTimeout(timeout)
+  }, [biome.name, runId, announce])
+
+  // Announce game state changes and score milestones
+  useEffect(() => {
+    if (runId === 0) return
+    const sim = simulationRef.current
+    switch (gameState) {
+      case 'playing':
+        announce(sim.tick === 0 ? 'Run started' : 'Resumed')
+        break
+      case 'paused':
+        announce('Paused')
+        break
+      case 'gameover':
+        announce(sim.finished
+          ? `Course complete in ${formatCourseTime(sim.tick)}. Score ${sim.score}`
+          : sim.killedBy
+          ? `Game over. Hit a ${sim.killedBy}. Score ${sim.score}`
+          : `Game over. Score ${sim.score}`)
+        break
+    }
+  }, [gameState, runId, announce])
 
-// Main App Component
-export default function App() {
-  const [gameState, setGameState] = useState<'idle' | 'playing' | 'gameover'>('idle')
-  const [score, setScore] = useState(0)
-  const [highScore, setHighScore] = useState(0)
-  const [playerLane, setPlayerLane] = useState(1)
-  const [playerY, setPlayerY] = useState(0.5)
-  const [isJumping, setIsJumping] = useState(false)
-  const [obstacles, setObstacles] = useState<Obstacle[]>([])
-
-  const velocityY = useRef(0)
-  const obstacleIdRef = useRef(0)
-  const lastSpawnTime = useRef(0)
-  const animationRef = useRef<number>()
+  useEffect(() => {
+    if (countdown) announce(String(countdown))
+  }, [countdown, announce])
 
-  // Reset game
-  const resetGame = useCallback(() => {
-    setScore(0)
-    setPlayerLane(1)
-    setPlayerY(0.5)
-    setIsJumping(false)
-    setObstacles([])
-    velocityY.current = 0
-    obstacleIdRef.current = 0
-    lastSpawnTime.current = 0
+  const scoreMilestone = Math.floor(score / SCORE_ANNOUNCE_STEP)
+  useEffect(() => {
+    if (scoreMilestone > 0) announce(`Score ${scoreMilestone * SCORE_ANNOUNCE_STEP}`)
+  }, [scoreMilestone, announce])
+
+  useEffect(() => {
+    if (pendingEntry) announce('New leaderboard score. Enter your initials.')
+  }, [pendingEntry, announce])
+
+  // Pause immediately; resuming goes through a 3-2-1 countdown
+  const pauseGame = useCallback(() => {
+    setCountdown(null)
+    setGameState(prev => (prev === 'playing' ? 'paused' : prev))
   }, [])
 
-  // Start game
-  const startGame = useCallback(() => {
-    resetGame()
-    setGameState('playing')
-  }, [resetGame])
+  const resumeGame = useCallback(() => {
+    if (gameState === 'paused' && countdown === null) setCountdown(3)
+  }, [gameState, countdown])
+
+  const togglePause = useCallback(() => {
+    if (gameState === 'playing') pauseGame()
+    else resumeGame()
+  }, [gameState, pauseGame, resumeGame])
+
+  useEffect(() => {
+    if (countdown === null) return
+    if (countdown === 0) {
+      setCountdown(null)
+      setGameState('playing')
+      return
+    }
+    const timeout = setTimeout(() => setCountdown(countdown - 1), 1000)
+    return () => clearTimeout(timeout)
+  }, [countdown])
+
+  // Pause automatically when the tab is hidden or the window loses focus
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.hidden) pauseGame()
+    }
+    document.addEventListener('visibilitychange', handleVisibility)
+    window.addEventListener('blur', pauseGame)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility)
+      window.removeEventListener('blur', pauseGame)
+    }
+  }, [pauseGame])
 
   // Jump
   const jump = useCallback(() => {
-    if (!isJumping && playerY <= 0.6) {
-      setIsJumping(true)
-      velocityY.current = JUMP_FORCE
-    }
-  }, [isJumping, playerY])
+    queueInput(simulationRef.current, 'jump')
+  }, [])
 
   // Move left
   const moveLeft = useCallback(() => {
-    setPlayerLane(prev => Math.max(0, prev - 1))
+    queueInput(simulationRef.current, 'moveLeft')
+  }, [])
+
+  // Slide
+  const slide = useCallback(() => {
+    queueInput(simulationRef.current, 'slide')
   }, [])
 
   // Move right
   const moveRight = useCallback(() => {
-    setPlayerLane(prev => Math.min(2, prev + 1))
+    queueInput(simulationRef.current, 'moveRight')
   }, [])
 
-  // Game loop
+  // Game loop: feeds frame time into the fixed-step simulation and publishes HUD snapshots.
+  // The loop is torn down while paused and restarts from the current time, so the gap
+  // is never fed into the simulation.
   useEffect(() => {
     if (gameState !== 'playing') return
 
+    const simulation = simulationRef.current
+    const ghost = ghostRef.current
+    const audio = audioRef.current
+    // Watching a replay or playing a course doesn't earn anything
+    const tracker = activeReplay || courseRun ? null : achievementsRef.current
     let lastTime = performance.now()
+    let lastPublished = simulation.tick
+
+    // Save unlocks as they happen, so leaving mid-run doesn't lose them
+    const unlocked = (unlocks: Unlock[]) => {
+      if (unlocks.length === 0) return
+      saveAchievements(achievementsRef.current.progress)
+      showUnlocks(unlocks)
+    }
+
+    // The music is clocked by the simulation, so it stops with the loop
+    audio.startMusic(() => getSongPosition(simulation))
 
     const gameLoop = (currentTime: number) => {
       const deltaTime = currentTime - lastTime
       lastTime = currentTime
 
-      // Update score
-      setScore(prev => prev + 1)
-
-      // Spawn obstacles
-      if (currentTime - lastSpawnTime.current > SPAWN_INTERVAL) {
-        lastSpawnTime.current = currentTime
-        const types: Array<'crystal' | 'spike' | 'ring'> = ['crystal', 'spike', 'ring']
-        const newObstacle: Obstacle = {
-          id: obstacleIdRef.current++,
-          lane: Math.floor(Math.random() * 3),
-          z: -60,
-          type: types[Math.floor(Math.random() * types.length)],
-          rotation: Math.random() * Math.PI * 2
+      if (advanceSimulation(simulation, deltaTime) > 0) {
+        if (ghost) advanceGhost(ghost, simulation.tick)
+        if (simulation.tick - lastPublished >= HUD_UPDATE_TICKS || simulation.gameOver) {
+          lastPublished = simulation.tick
+          setSnapshot(getSnapshot(simulation))
+          if (ghost) setGhostSnapshot(getGhostSnapshot(ghost))
+          if (tracker && !simulation.gameOver) unlocked(trackRun(tracker, simulation))
         }
-        setObstacles(prev => [...prev, newObstacle])
+      }
+      for (const event of drainEvents(simulation)) {
+        audio.playEvent(event)
+        if (event.type === 'pickup' && event.pickup !== 'shard') announce(`${POWER_UP_LABELS[event.pickup]} active`)
+        if (event.type === 'shieldBreak') announce('Shield broken')
+        if (event.type === 'combo' && event.multiplier > 1) announce(`Combo times ${event.multiplier}`)
+        if (tracker) unlocked(trackEvent(tracker, event))
       }
 
-      // Update obstacles
-      setObstacles(prev => {
-        const updated = prev
-          .map(obs => ({ ...obs, z: obs.z + OBSTACLE_SPEED * deltaTime * 0.06 }))
-          .filter(obs => obs.z < 10)
-
-        // Collision detection
-        for (const obs of updated) {
-          if (obs.z > -1 && obs.z < 1) {
-            const playerX = LANES[playerLane]
-            const obsX = LANES[obs.lane]
-
-            if (Math.abs(playerX - obsX) < 1) {
-              // Check if player avoided by jumping (for rings, you need to be at ring height)
-              if (obs.type === 'ring') {
-                if (playerY < 1.2) {
-                  // Hit the ring from below
-                  setGameState('gameover')
-                  setHighScore(prev => Math.max(prev, score))
-                }
-              } else {
-                // For crystals and spikes, jumping over them works
-                if (playerY < 1.5) {
-                  setGameState('gameover')
-                  setHighScore(prev => Math.max(prev, score))
-                }
-              }
-            }
+      if (simulation.gameOver) {
+        setGameState('gameover')
+        if (tracker) {
+          // The run's totals and mission progress count whether or not anything unlocked
+          const unlocks = finishRun(tracker, simulation)
+          saveAchievements(tracker.progress)
+          showUnlocks(unlocks)
+        }
+        if (activeReplay) {
+          if (simulation.tick !== activeReplay.finalTick) {
+            setReplayMessage(`REPLAY DESYNCED AT TICK ${simulation.tick} (EXPECTED ${activeReplay.finalTick})`)
           }
+        } else if (courseRun) {
+          // Replays don't record the course, so course runs leave none behind
+          setLastReplay(null)
+          setPendingEntry(null)
+          if (simulation.finished && courseRun.from === 0) {
+            setCourseLibrary(recordCourseScore(courseRun.course.id, simulation.score))
+          }
+        } else {
+          const replay = createReplay(simulation)
+          setLastReplay(replay)
+          // The ghost races endless runs, so a run on the daily course can't be it
+          if (!dailyRun) setGhostBest(recordGhostRun(replay))
+          setSavedRank(null)
+          if (dailyRun?.scored) {
+            setDaily(recordDailyResult({
+              date: dailyRun.date,
+              score: simulation.score,
+              distance: simulation.distance,
+              killedBy: simulation.killedBy,
+              segments: summarizeRun(replay)
+            }))
+          }
+          // Daily scores are compared by sharing results, not on the leaderboard
+          if (gameMode !== 'daily') setHighScore(prev => Math.max(prev, simulation.score))
+          setPendingEntry(gameMode !== 'daily' && qualifiesForLeaderboard(gameMode, simulation.score)
+            ? {
+                score: simulation.score,
+                distance: simulation.distance,
+                date: new Date().toISOString(),
+                killedBy: simulation.killedBy
+              }
+            : null)
         }
+        return
+      }
 
-        return updated
-      })
+      animationRef.current = requestAnimationFrame(gameLoop)
+    }
 
-      // Update player Y position (jumping physics)
-      setPlayerY(prev => {
-        velocityY.current -= GRAVITY
-        const newY = Math.max(0.5, prev + velocityY.current)
+    animationRef.current = requestAnimationFrame(gameLoop)
 
-        if (newY <= 0.5) {
-          velocityY.current = 0
-          setIsJumping(false)
-          return 0.5
-        }
+    return () => {
+      audio.stopMusic()
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current)
+      }
+    }
+  }, [gameState, activeReplay, gameMode, dailyRun, courseRun, announce, showUnlocks])
+
+  // Input bindings, persisted between sessions
+  const [bindings, setBindings] = useState(loadBindings)
+  const [settingsPanel, setSettingsPanel] = useState<'controls' | 'sound' | 'graphics' | 'accessibility' | 'achievements' | null>(null)
+  const settingsOpen = settingsPanel !== null
+  // Local versus takes over the screen and its own input while open
+  const [versusOpen, setVersusOpen] = useState(false)
+  const [inputDevice, setInputDevice] = useState<InputDevice>(() =>
+    'ontouchstart' in window ? 'touch' : 'keyboard'
+  )
 
-        return newY
-      })
+  // Attract mode: the autopilot plays behind the title screen. It's silent and off the
+  // record, and starting a run replaces its simulation. With reduced motion the scene
+  // stays still instead.
+  useEffect(() => {
+    if (gameState !== 'idle' || versusOpen || editorOpen || reducedMotion) return
 
-      animationRef.current = requestAnimationFrame(gameLoop)
+    let simulation = createSimulation()
+    let pilot = createAutopilot()
+    let lastTime = performance.now()
+    let restart: ReturnType<typeof setTimeout> | undefined
+    simulationRef.current = simulation
+    ghostRef.current = null
+
+    const attractLoop = (currentTime: number) => {
+      const deltaTime = currentTime - lastTime
+      lastTime = currentTime
+      advanceSimulation(simulation, deltaTime, sim => driveAutopilot(pilot, sim))
+      drainEvents(simulation)
+
+      if (simulation.gameOver && restart === undefined) {
+        restart = setTimeout(() => {
+          simulation = createSimulation()
+          pilot = createAutopilot()
+          simulationRef.current = simulation
+          restart = undefined
+        }, ATTRACT_RESTART_DELAY)
+      }
+      animationRef.current = requestAnimationFrame(attractLoop)
     }
 
-    animationRef.current = requestAnimationFrame(gameLoop)
+    animationRef.current = requestAnimationFrame(attractLoop)
 
     return () => {
+      clearTimeout(restart)
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current)
       }
     }
-  }, [gameState, playerLane, playerY, score])
+  }, [gameState, versusOpen, editorOpen, reducedMotion])
+
+  const updateBindings = useCallback((next: InputBindings) => {
+    setBindings(next)
+    saveBindings(next)
+  }, [])
+
+  // Route an abstract action according to the current game state
+  const handleAction = useCallback((action: ControlAction) => {
+    if (action === 'menu') {
+      if (gameState === 'paused' || gameState === 'gameover') goToMenu()
+      return
+    }
+    if (gameState === 'idle' || gameState === 'gameover') {
+      if (action === 'start') startGame()
+      return
+    }
+
+    if (action === 'pause') {
+      togglePause()
+      return
+    }
+    if (gameState === 'paused') return
+
+    switch (action) {
+      case 'left':
+        moveLeft()
+        break
+      case 'right':
+        moveRight()
+        break
+      case 'jump':
+        jump()
+        break
+      case 'slide':
+        slide()
+        break
+    }
+  }, [gameState, startGame, goToMenu, togglePause, moveLeft, moveRight, jump, slide])
 
   // Keyboard controls
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (gameState === 'idle' || gameState === 'gameover') {
-        if (e.code === 'Space' || e.code === 'Enter') {
-          startGame()
-        }
-        return
-      }
+    if (settingsOpen || versusOpen || editorOpen) return
 
-      switch (e.code) {
-        case 'ArrowLeft':
-        case 'KeyA':
-          moveLeft()
-          break
-        case 'ArrowRight':
-        case 'KeyD':
-          moveRight()
-          break
-        case 'Space':
-        case 'ArrowUp':
-        case 'KeyW':
-          jump()
-          break
-      }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const actions = actionsForKey(bindings, e.code)
+      if (actions.length === 0) return
+      setInputDevice('keyboard')
+      actions.forEach(handleAction)
     }
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [gameState, startGame, moveLeft, moveRight, jump])
+  }, [bindings, settingsOpen, versusOpen, editorOpen, handleAction])
+
+  // Gamepad controls
+  useGamepad({
+    bindings,
+    enabled: !settingsOpen && !versusOpen && !editorOpen,
+    onAction: (action) => {
+      setInputDevice('gamepad')
+      handleAction(action)
+    }
+  })
 
   // Touch controls
   const touchStartX = useRef(0)
   const touchStartY = useRef(0)
 
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
+    setInputDevice('touch')
     touchStartX.current = e.touches[0].clientX
     touchStartY.current = e.touches[0].clientY
   }, [])
 
   const handleTouchEnd = useCallback((e: React.TouchEvent) => {
+    // Taps on buttons and fields belong to them, not to the game
+    if (settingsOpen || versusOpen || editorOpen || (e.target as HTMLElement).closest('button, input, form')) return
+
     if (gameState === 'idle' || gameState === 'gameover') {
       startGame()
       return
     }
+    if (gameState === 'paused') return
 
     const deltaX = e.changedTouches[0].clientX - touchStartX.current
     const deltaY = e.changedTouches[0].clientY - touchStartY.current
 
+    const threshold = bindings.swipeThreshold
+
     if (Math.abs(deltaX) > Math.abs(deltaY)) {
-      if (deltaX > 30) moveRight()
-      else if (deltaX < -30) moveLeft()
+      if (deltaX > threshold) moveRight()
+      else if (deltaX < -threshold) moveLeft()
     } else {
-      if (deltaY < -30) jump()
+      if (deltaY < -threshold) jump()
+      else if (deltaY > threshold) slide()
     }
-  }, [gameState, startGame, moveLeft, moveRight, jump])
+  }, [gameState, settingsOpen, versusOpen, editorOpen, bindings, startGame, moveLeft, moveRight, jump, slide])
 
   return (
     <div
@@ -623,26 +719,40 @@ export default function App() {
       onTouchEnd={handleTouchEnd}
     >
       {/* 3D Canvas */}
-      <Canvas
-        shadows
-        camera={{ position: [0, 4, 6], fov: 75 }}
-        style={{ background: 'linear-gradient(180deg, #0a0a0f 0%, #1a0a2e 50%, #050508 100%)' }}
-      >
-        <Suspense fallback={null}>
-          <fog attach="fog" args={['#050508', 10, 70]} />
-          <GameScene
-            obstacles={obstacles}
-            playerLane={playerLane}
-            playerY={playerY}
-            isJumping={isJumping}
-            gameOver={gameState === 'gameover'}
-            score={score}
-          />
-        </Suspense>
-      </Canvas>
+      {!versusOpen && !editorOpen && (
+        <Canvas
+          shadows
+          dpr={quality.dpr}
+          camera={{ position: [0, 4, 6], fov: 75 }}
+          style={{ background: `linear-gradient(180deg, ${look.sky[0]} 0%, ${look.sky[1]} 50%, ${look.sky[2]} 100%)` }}
+        >
+          <Suspense fallback={null}>
+            <GameScene
+              simulationRef={simulationRef}
+              ghostRef={ghostRef}
+              quality={quality}
+              palette={palette}
+              shapeCues={accessibility.shapeCues}
+              reducedMotion={reducedMotion}
+              showHitboxes={graphicsSettings.showHitboxes}
+              cameraMode={graphicsSettings.camera}
+              debugCamera={import.meta.env.DEV && debugCamera}
+              attract={gameState === 'idle'}
+            />
+          </Suspense>
+          {graphicsSettings.quality === 'auto' && <AutoQuality onStep={stepAutoQuality} />}
+          {graphicsSettings.showPerf && <PerfProbe onSample={setPerfStats} />}
+        </Canvas>
+      )}
+
+      {/* Screen reader announcements */}
+      {accessibility.announcements && <LiveRegion announcement={announcement} />}
 
       {/* UI Overlay */}
       <div className="absolute inset-0 pointer-events-none">
+        {/* Performance overlay */}
+        {graphicsSettings.showPerf && <PerfOverlay stats={perfStats} level={qualityLevel} />}
+
         {/* Title & Start Screen */}
         {gameState === 'idle' && (
           <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-auto">
@@ -669,7 +779,7 @@ export default function App() {
               </h2>
 
               <button
-                onClick={startGame}
+                onClick={() => startMode('endless')}
                 className="px-8 py-4 md:px-12 md:py-5 text-lg md:text-xl font-bold tracking-wider transition-all duration-300 hover:scale-110 active:scale-95"
                 style={{
                   fontFamily: '"Orbitron", sans-serif',
@@ -682,15 +792,161 @@ export default function App() {
                 START GAME
               </button>
 
+              {ghostBest && (
+                <div>
+                  <button
+                    onClick={() => startMode('ghost')}
+                    className="mt-4 px-6 py-2 text-sm md:text-base font-bold tracking-wider transition-all duration-300 hover:scale-105"
+                    style={{
+                      fontFamily: '"Orbitron", sans-serif',
+                      color: GHOST_COLOR,
+                      border: `1px solid ${GHOST_COLOR}`,
+                      borderRadius: '4px',
+                      boxShadow: '0 0 20px rgba(255, 221, 0, 0.3)'
+                    }}
+                  >
+                    RACE YOUR GHOST · {ghostBest.score.toString().padStart(6, '0')}
+                  </button>
+                </div>
+              )}
+
+              {/* Daily Void: one scored attempt a day, then practice */}
+              <div className="mt-4 flex justify-center gap-2">
+                <button
+                  onClick={() => startDaily(false)}
+                  disabled={playedToday}
+                  className="px-6 py-2 text-sm md:text-base font-bold tracking-wider transition-all duration-300 hover:scale-105 disabled:opacity-60 disabled:hover:scale-100"
+                  style={{
+                    fontFamily: '"Orbitron", sans-serif',
+                    color: '#d300c5',
+                    border: '1px solid #d300c5',
+                    borderRadius: '4px',
+                    boxShadow: '0 0 20px rgba(211, 0, 197, 0.3)'
+                  }}
+                >
+                  {playedToday
+                    ? `DAILY VOID · ${daily.result ? daily.result.score.toString().padStart(6, '0') : 'PLAYED'}`
+                    : `DAILY VOID · ${today}`}
+                </button>
+                <button
+                  onClick={() => startDaily(true)}
+                  className="px-4 py-2 text-xs md:text-sm font-bold tracking-wider transition-all duration-300 hover:scale-105"
+                  style={{
+                    fontFamily: '"Orbitron", sans-serif',
+                    color: '#d300c5',
+                    border: '1px solid rgba(211, 0, 197, 0.5)',
+                    borderRadius: '4px'
+                  }}
+                >
+                  PRACTICE
+                </button>
+              </div>
+              {(currentStreak(daily, today) > 0 || (playedToday && daily.result)) && (
+                <div
+                  className="mt-2 flex justify-center items-center gap-3 text-xs md:text-sm tracking-widest"
+                  style={{ fontFamily: '"Orbitron", sans-serif', color: '#d300c5' }}
+                >
+                  <span>STREAK {currentStreak(daily, today)} · BEST {daily.bestStreak}</span>
+                  {playedToday && daily.result && (
+                    <button onClick={copyDailyResult} className="underline hover:opacity-80">
+                      {dailyMessage || 'COPY RESULT'}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Hand-built courses, played and made in the editor */}
+              <div>
+                <button
+                  onClick={() => setEditorOpen(true)}
+                  className="mt-4 px-6 py-2 text-sm md:text-base font-bold tracking-wider transition-all duration-300 hover:scale-105"
+                  style={{
+                    fontFamily: '"Orbitron", sans-serif',
+                    color: '#05d9e8',
+                    border: '1px solid #05d9e8',
+                    borderRadius: '4px',
+                    boxShadow: '0 0 20px rgba(5, 217, 232, 0.3)'
+                  }}
+                >
+                  COURSES · {courseLibrary.courses.length > 0 ? `${courseLibrary.courses.length} BUILT` : 'EDITOR'}
+                </button>
+              </div>
+
+              {/* Versus needs two sets of keys or two pads, so it is hidden on touch screens */}
+              {inputDevice !== 'touch' && (
+                <div>
+                  <button
+                    onClick={() => {
+                      audioRef.current.unlock()
+                      setVersusOpen(true)
+                    }}
+                    className="mt-4 px-6 py-2 text-sm md:text-base font-bold tracking-wider transition-all duration-300 hover:scale-105"
+                    style={{
+                      fontFamily: '"Orbitron", sans-serif',
+                      color: '#ff2a6d',
+                      border: '1px solid #ff2a6d',
+                      borderRadius: '4px',
+                      boxShadow: '0 0 20px rgba(255, 42, 109, 0.3)'
+                    }}
+                  >
+                    2P VERSUS · WASD vs ARROWS
+                  </button>
+                </div>
+              )}
+
               <div
                 className="mt-8 text-sm md:text-base opacity-70"
                 style={{ fontFamily: '"Orbitron", sans-serif', color: '#05d9e8' }}
               >
-                <p className="mb-2">DESKTOP: Arrow keys or WASD to move & jump</p>
-                <p>MOBILE: Swipe left/right to move, swipe up to jump</p>
+                {inputDevice === 'touch' ? (
+                  <p>Swipe left/right to move, up to jump, down to slide</p>
+                ) : (
+                  <>
+                    <p className="mb-2">
+                      MOVE {formatBindings(bindings, inputDevice, 'left')} / {formatBindings(bindings, inputDevice, 'right')}
+                      {inputDevice === 'gamepad' && ' / LEFT STICK'}
+                    </p>
+                    <p>
+                      JUMP {formatBindings(bindings, inputDevice, 'jump')} · SLIDE {formatBindings(bindings, inputDevice, 'slide')} · PAUSE {formatBindings(bindings, inputDevice, 'pause')}
+                    </p>
+                  </>
+                )}
               </div>
 
-              {highScore > 0 && (
+              <div className="mt-4 flex justify-center gap-3">
+                {(['controls', 'sound', 'graphics', 'accessibility'] as const).map(panel => (
+                  <button
+                    key={panel}
+                    onClick={() => setSettingsPanel(panel)}
+                    className="px-4 py-2 text-xs md:text-sm font-bold tracking-wider uppercase transition-all duration-300 hover:scale-105"
+                    style={{
+                      fontFamily: '"Orbitron", sans-serif',
+                      color: '#05d9e8',
+                      border: '1px solid rgba(5, 217, 232, 0.5)',
+                      borderRadius: '4px'
+                    }}
+                  >
+                    {panel}
+                  </button>
+                ))}
+              </div>
+
+              <button
+                onClick={() => setSettingsPanel('achievements')}
+                className="mt-3 px-4 py-2 text-xs md:text-sm font-bold tracking-wider transition-all duration-300 hover:scale-105"
+                style={{
+                  fontFamily: '"Orbitron", sans-serif',
+                  color: '#ffdd00',
+                  border: '1px solid rgba(255, 221, 0, 0.5)',
+                  borderRadius: '4px'
+                }}
+              >
+                ACHIEVEMENTS {ACHIEVEMENTS.filter(a => achievementsRef.current.progress.unlocked[a.id]).length}/{ACHIEVEMENTS.length}
+              </button>
+
+              {leaderboard.length > 0 ? (
+                <Leaderboard entries={leaderboard} highlightRank={savedRank} />
+              ) : highScore > 0 && (
                 <div
                   className="mt-6 text-xl md:text-2xl"
                   style={{
@@ -702,10 +958,96 @@ export default function App() {
                   HIGH SCORE: {highScore.toString().padStart(6, '0')}
                 </div>
               )}
+
+              {/* Replay import */}
+              <div
+                className="mt-6 flex justify-center gap-2 text-xs md:text-sm"
+                style={{ fontFamily: '"Orbitron", sans-serif' }}
+              >
+                <input
+                  value={replayCode}
+                  onChange={(e) => setReplayCode(e.target.value)}
+                  onKeyDown={(e) => e.stopPropagation()}
+                  placeholder="PASTE REPLAY CODE"
+                  className="px-3 py-2 w-48 md:w-64 bg-transparent outline-none"
+                  style={{
+                    color: '#05d9e8',
+                    border: '1px solid rgba(5, 217, 232, 0.5)',
+                    borderRadius: '4px'
+                  }}
+                />
+                <button
+                  onClick={importReplay}
+                  disabled={!replayCode.trim()}
+                  className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105 disabled:opacity-40"
+                  style={{
+                    color: '#05d9e8',
+                    border: '1px solid rgba(5, 217, 232, 0.5)',
+                    borderRadius: '4px'
+                  }}
+                >
+                  WATCH
+                </button>
+              </div>
+              {replayMessage && (
+                <p
+                  className="mt-2 text-xs md:text-sm"
+                  style={{ fontFamily: '"Orbitron", sans-serif', color: '#ff2a6d' }}
+                >
+                  {replayMessage}
+                </p>
+              )}
             </div>
           </div>
         )}
 
+        {/* Controls Settings */}
+        {settingsPanel === 'controls' && (
+          <ControlsSettings
+            bindings={bindings}
+            onChange={updateBindings}
+            onClose={() => setSettingsPanel(null)}
+          />
+        )}
+
+        {/* Sound Settings */}
+        {settingsPanel === 'sound' && (
+          <SoundSettings
+            settings={audioSettings}
+            onChange={updateAudioSettings}
+            onClose={() => setSettingsPanel(null)}
+          />
+        )}
+
+        {/* Graphics Settings */}
+        {settingsPanel === 'graphics' && (
+          <GraphicsSettings
+            settings={graphicsSettings}
+            activeLevel={qualityLevel}
+            debugCamera={debugCamera}
+            onChange={updateGraphicsSettings}
+            onDebugCameraChange={import.meta.env.DEV ? setDebugCamera : undefined}
+            onClose={() => setSettingsPanel(null)}
+          />
+        )}
+
+        {/* Accessibility Settings */}
+        {settingsPanel === 'accessibility' && (
+          <AccessibilitySettings
+            settings={accessibility}
+            onChange={updateAccessibility}
+            onClose={() => setSettingsPanel(null)}
+          />
+        )}
+
+        {/* Achievements */}
+        {settingsPanel === 'achievements' && (
+          <AchievementsGallery
+            tracker={achievementsRef.current}
+            onClose={() => setSettingsPanel(null)}
+          />
+        )}
+
         {/* Game Over Screen */}
         {gameState === 'gameover' && (
           <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/50 pointer-events-auto">
@@ -718,7 +1060,7 @@ export default function App() {
                   textShadow: '0 0 40px rgba(255, 42, 109, 0.8)'
                 }}
               >
-                GAME OVER
+                {activeReplay ? 'REPLAY OVER' : snapshot.finished ? 'COURSE COMPLETE' : 'GAME OVER'}
               </h2>
 
               <div
@@ -732,9 +1074,9 @@ export default function App() {
                 SCORE: {score.toString().padStart(6, '0')}
               </div>
 
-              {score >= highScore && score > 0 && (
+              {!activeReplay && gameMode !== 'daily' && gameMode !== 'course' && score >= highScore && score > 0 && (
                 <div
-                  className="text-lg md:text-xl mb-6 animate-pulse"
+                  className={`text-lg md:text-xl mb-6${pulse}`}
                   style={{
                     fontFamily: '"Orbitron", sans-serif',
                     color: '#ffdd00',
@@ -745,6 +1087,118 @@ export default function App() {
                 </div>
               )}
 
+              {ghostSnapshot && (
+                <div
+                  className="text-sm md:text-base mb-6 tracking-widest"
+                  style={{ fontFamily: '"Orbitron", sans-serif', color: GHOST_COLOR }}
+                >
+                  {ghostGap >= 0
+                    ? `YOU BEAT YOUR GHOST BY ${Math.floor(ghostGap)}m`
+                    : `YOUR GHOST WAS ${Math.ceil(-ghostGap)}m AHEAD`}
+                </div>
+              )}
+
+              {/* Daily Void result to share */}
+              {!activeReplay && dailyRun && (dailyRun.scored && daily.result?.date === dailyRun.date ? (
+                <div className="mb-4" style={{ fontFamily: '"Orbitron", sans-serif', color: '#d300c5' }}>
+                  <pre
+                    className="inline-block px-4 py-3 text-left text-xs md:text-sm whitespace-pre-wrap select-text"
+                    style={{ border: '1px solid rgba(211, 0, 197, 0.5)', borderRadius: '4px', background: 'rgba(10, 10, 15, 0.6)' }}
+                  >
+                    {formatDailyResult(daily.result, currentStreak(daily, dailyRun.date))}
+                  </pre>
+                  <div>
+                    <button
+                      onClick={copyDailyResult}
+                      className="mt-2 px-4 py-2 text-xs md:text-sm font-bold tracking-wider transition-all duration-300 hover:scale-105"
+                      style={{ color: '#d300c5', border: '1px solid rgba(211, 0, 197, 0.5)', borderRadius: '4px' }}
+                    >
+                      COPY RESULT
+                    </button>
+                  </div>
+                  {dailyMessage && <p className="mt-2 text-xs md:text-sm">{dailyMessage}</p>}
+                </div>
+              ) : (
+                <div
+                  className="mb-4 text-sm md:text-base tracking-widest"
+                  style={{ fontFamily: '"Orbitron", sans-serif', color: '#d300c5' }}
+                >
+                  DAILY PRACTICE · NOT SCORED
+                </div>
+              ))}
+
+              {/* Course result: the time to the finish, or how far the run got */}
+              {!activeReplay && courseRun && (
+                <div className="mb-4 tracking-widest" style={{ fontFamily: '"Orbitron", sans-serif', color: '#05d9e8' }}>
+                  <div className="text-sm md:text-base">
+                    {courseRun.course.name}
+                    {courseRun.from > 0 && ` · TEST FROM ${courseRun.from}m`}
+                  </div>
+                  <div className="text-lg md:text-xl">
+                    {snapshot.finished
+                      ? `TIME ${formatCourseTime(snapshot.tick)}`
+                      : `CRASHED AT ${Math.floor(courseRun.from + snapshot.distance)}m OF ${courseRun.course.length}m`}
+                  </div>
+                  {courseRun.from === 0 && courseLibrary.bestScores[courseRun.course.id] !== undefined && (
+                    <div className="text-sm md:text-base" style={{ color: '#ffdd00' }}>
+                      {snapshot.finished && courseLibrary.bestScores[courseRun.course.id] === score ? 'NEW BEST · ' : 'BEST '}
+                      {courseLibrary.bestScores[courseRun.course.id].toString().padStart(6, '0')}
+                    </div>
+                  )}
+                  <button
+                    onClick={() => setEditorOpen(true)}
+                    className="mt-3 px-4 py-2 text-xs md:text-sm font-bold tracking-wider transition-all duration-300 hover:scale-105"
+                    style={{ color: '#05d9e8', border: '1px solid rgba(5, 217, 232, 0.5)', borderRadius: '4px' }}
+                  >
+                    BACK TO EDITOR
+                  </button>
+                </div>
+              )}
+
+              {/* Leaderboard entry */}
+              {!activeReplay && pendingEntry && (
+                <form
+                  className="mb-2 flex justify-center items-center gap-2 text-sm md:text-base"
+                  style={{ fontFamily: '"Orbitron", sans-serif' }}
+                  onSubmit={(e) => { e.preventDefault(); saveEntry(); }}
+                >
+                  <span style={{ color: '#ffdd00' }}>INITIALS</span>
+                  <input
+                    autoFocus
+                    value={initials}
+                    onChange={(e) => setInitials(sanitizeInitials(e.target.value))}
+                    onKeyDown={(e) => e.stopPropagation()}
+                    maxLength={3}
+                    className="w-20 px-2 py-1 text-center tracking-[0.3em] bg-transparent outline-none"
+                    style={{
+                      color: '#ffdd00',
+                      border: '1px solid rgba(255, 221, 0, 0.6)',
+                      borderRadius: '4px'
+                    }}
+                  />
+                  <button
+                    type="submit"
+                    disabled={initials.length === 0}
+                    className="px-3 py-1 font-bold tracking-wider disabled:opacity-40"
+                    style={{
+                      color: '#ffdd00',
+                      border: '1px solid rgba(255, 221, 0, 0.6)',
+                      borderRadius: '4px'
+                    }}
+                  >
+                    SAVE
+                  </button>
+                </form>
+              )}
+              {!activeReplay && savedRank && (
+                <div
+                  className="mb-2 text-sm md:text-base"
+                  style={{ fontFamily: '"Orbitron", sans-serif', color: '#ffdd00' }}
+                >
+                  SAVED AT RANK #{savedRank}
+                </div>
+              )}
+
               <button
                 onClick={startGame}
                 className="px-8 py-4 md:px-10 md:py-4 text-base md:text-lg font-bold tracking-wider transition-all duration-300 hover:scale-110 active:scale-95 mt-4"
@@ -758,13 +1212,306 @@ export default function App() {
               >
                 PLAY AGAIN
               </button>
+              <button
+                onClick={goToMenu}
+                className="ml-3 px-6 py-4 text-base md:text-lg font-bold tracking-wider transition-all duration-300 hover:scale-110 active:scale-95 mt-4"
+                style={{
+                  fontFamily: '"Orbitron", sans-serif',
+                  color: '#05d9e8',
+                  border: '1px solid rgba(5, 217, 232, 0.5)',
+                  borderRadius: '4px'
+                }}
+              >
+                MENU
+              </button>
+
+              {/* Replay controls */}
+              <div
+                className="mt-6 flex justify-center gap-3 text-xs md:text-sm"
+                style={{ fontFamily: '"Orbitron", sans-serif' }}
+              >
+                {(activeReplay ?? lastReplay) && (
+                  <button
+                    onClick={() => watchReplay((activeReplay ?? lastReplay)!)}
+                    className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+                    style={{
+                      color: '#05d9e8',
+                      border: '1px solid rgba(5, 217, 232, 0.5)',
+                      borderRadius: '4px'
+                    }}
+                  >
+                    WATCH REPLAY
+                  </button>
+                )}
+                {!activeReplay && lastReplay && (
+                  <button
+                    onClick={copyReplay}
+                    className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+                    style={{
+                      color: '#05d9e8',
+                      border: '1px solid rgba(5, 217, 232, 0.5)',
+                      borderRadius: '4px'
+                    }}
+                  >
+                    COPY REPLAY CODE
+                  </button>
+                )}
+              </div>
+              {replayMessage && (
+                <p
+                  className="mt-2 max-w-md mx-auto text-xs md:text-sm break-all"
+                  style={{ fontFamily: '"Orbitron", sans-serif', color: '#05d9e8' }}
+                >
+                  {replayMessage}
+                </p>
+              )}
             </div>
           </div>
         )}
 
+        {/* Pause Screen */}
+        {gameState === 'paused' && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/50 pointer-events-auto">
+            {countdown !== null ? (
+              <div
+                key={countdown}
+                className="text-6xl md:text-8xl font-black animate-ping"
+                style={{
+                  fontFamily: '"Orbitron", sans-serif',
+                  color: '#05d9e8',
+                  textShadow: '0 0 40px rgba(5, 217, 232, 0.8)'
+                }}
+              >
+                {countdown}
+              </div>
+            ) : (
+              <div className="text-center">
+                <h2
+                  className="text-3xl md:text-5xl font-black tracking-wider mb-6"
+                  style={{
+                    fontFamily: '"Orbitron", sans-serif',
+                    color: '#05d9e8',
+                    textShadow: '0 0 40px rgba(5, 217, 232, 0.8)'
+                  }}
+                >
+                  PAUSED
+                </h2>
+                <button
+                  onClick={resumeGame}
+                  className="px-8 py-4 md:px-10 md:py-4 text-base md:text-lg font-bold tracking-wider transition-all duration-300 hover:scale-110 active:scale-95"
+                  style={{
+                    fontFamily: '"Orbitron", sans-serif',
+                    background: 'linear-gradient(135deg, #05d9e8 0%, #d300c5 100%)',
+                    color: '#0a0a0f',
+                    borderRadius: '4px',
+                    boxShadow: '0 0 30px rgba(5, 217, 232, 0.5)'
+                  }}
+                >
+                  RESUME
+                </button>
+                <button
+                  onClick={goToMenu}
+                  className="ml-3 px-6 py-4 text-base md:text-lg font-bold tracking-wider transition-all duration-300 hover:scale-110 active:scale-95"
+                  style={{
+                    fontFamily: '"Orbitron", sans-serif',
+                    color: '#05d9e8',
+                    border: '1px solid rgba(5, 217, 232, 0.5)',
+                    borderRadius: '4px'
+                  }}
+                >
+                  MENU
+                </button>
+                <p
+                  className="mt-4 text-xs md:text-sm opacity-70"
+                  style={{ fontFamily: '"Orbitron", sans-serif', color: '#05d9e8' }}
+                >
+                  ESC or P to resume · M for menu
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* In-game HUD */}
         {gameState === 'playing' && (
           <>
+            {/* Pause button */}
+            <button
+              onClick={pauseGame}
+              onTouchEnd={(e) => e.stopPropagation()}
+              aria-label="Pause"
+              className="absolute top-4 left-4 w-10 h-10 rounded-full flex items-center justify-center pointer-events-auto active:scale-90 transition-transform"
+              style={accessibility.highContrast ? HIGH_CONTRAST_BUTTON : {
+                fontFamily: '"Orbitron", sans-serif',
+                color: '#05d9e8',
+                border: '2px solid rgba(5, 217, 232, 0.6)',
+                background: 'rgba(5, 217, 232, 0.15)'
+              }}
+            >
+              II
+            </button>
+
+            {/* Mute toggle */}
+            <button
+              onClick={() => updateAudioSettings({ ...audioSettings, muted: !audioSettings.muted })}
+              onTouchEnd={(e) => e.stopPropagation()}
+              aria-label={audioSettings.muted ? 'Unmute' : 'Mute'}
+              className="absolute top-4 left-16 w-10 h-10 rounded-full flex items-center justify-center pointer-events-auto active:scale-90 transition-transform"
+              style={accessibility.highContrast ? HIGH_CONTRAST_BUTTON : {
+                fontFamily: '"Orbitron", sans-serif',
+                color: audioSettings.muted ? '#ff2a6d' : '#05d9e8',
+                border: `2px solid ${audioSettings.muted ? 'rgba(255, 42, 109, 0.6)' : 'rgba(5, 217, 232, 0.6)'}`,
+                background: audioSettings.muted ? 'rgba(255, 42, 109, 0.15)' : 'rgba(5, 217, 232, 0.15)'
+              }}
+            >
+              {audioSettings.muted ? '✕' : '♪'}
+            </button>
+
+            {/* The 3D score is hard to pick out, so high contrast adds a plain readout */}
+            {accessibility.highContrast && (
+              <div
+                className="absolute top-4 left-28 h-10 flex items-center text-sm md:text-base tracking-widest"
+                style={{ ...HIGH_CONTRAST_BUTTON, borderRadius: '4px', padding: '0 0.75em' }}
+              >
+                {score.toString().padStart(6, '0')}
+              </div>
+            )}
+
+            {activeReplay && (
+              <div
+                className={`absolute top-4 left-0 right-0 text-center text-sm md:text-base tracking-widest${pulse}`}
+                style={hudText('#ffdd00')}
+              >
+                REPLAY · SEED {activeReplay.seed.toString(16).toUpperCase()}
+              </div>
+            )}
+
+            {dailyRun && (
+              <div
+                className="absolute top-4 left-0 right-0 text-center text-sm md:text-base tracking-widest"
+                style={hudText('#d300c5')}
+              >
+                {dailyRun.scored ? 'DAILY VOID' : 'DAILY PRACTICE'} · {dailyRun.date}
+              </div>
+            )}
+
+            {/* Course progress */}
+            {courseRun && (
+              <div
+                className="absolute top-4 left-0 right-0 text-center text-sm md:text-base tracking-widest"
+                style={hudText('#05d9e8')}
+              >
+                {courseRun.from > 0 ? 'TEST' : courseRun.course.name} · {formatCourseTime(snapshot.tick)} · {Math.floor(courseRun.from + snapshot.distance)}/{courseRun.course.length}m
+              </div>
+            )}
+
+            {/* Distance to the ghost */}
+            {ghostSnapshot && (
+              <div
+                className="absolute top-4 left-0 right-0 text-center text-sm md:text-base tracking-widest"
+                style={hudText(ghostGap >= 0 ? GHOST_COLOR : '#ff2a6d')}
+              >
+                GHOST {ghostGap >= 0 ? '+' : '-'}{Math.abs(ghostGap).toFixed(1)}m
+                {ghostSnapshot.finished && ' · CRASHED'}
+              </div>
+            )}
+
+            {/* Combo multiplier, its timeout, and recent bonuses */}
+            {snapshot.combo.clears > 0 && (
+              <div className="absolute top-14 left-0 right-0 flex flex-col items-center pointer-events-none">
+                <div
+                  className="text-lg md:text-2xl font-black tracking-widest"
+                  style={hudText(COMBO_COLOR, `0 0 20px ${COMBO_COLOR}`)}
+                >
+                  x{snapshot.combo.multiplier} · {snapshot.combo.clears} CLEAR{snapshot.combo.clears === 1 ? '' : 'S'}
+                </div>
+                <div
+                  className="h-1 w-24 md:w-32 mt-1"
+                  style={{
+                    background: accessibility.highContrast ? '#000000' : 'rgba(255, 255, 255, 0.1)',
+                    border: accessibility.highContrast ? '1px solid #ffffff' : undefined
+                  }}
+                >
+                  <div
+                    className="h-full"
+                    style={{
+                      width: `${(snapshot.combo.ticksLeft / COMBO_TICKS) * 100}%`,
+                      background: accessibility.highContrast ? '#ffffff' : COMBO_COLOR
+                    }}
+                  />
+                </div>
+                {snapshot.bonuses.map(bonus => (
+                  <div
+                    key={bonus.id}
+                    className="mt-1 text-xs md:text-sm tracking-widest"
+                    style={hudText(BONUS_COLORS[bonus.type])}
+                  >
+                    +{bonus.points} {BONUS_LABELS[bonus.type]}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Active power-up timers */}
+            <div
+              className="absolute top-4 right-4 flex flex-col gap-2 w-32 md:w-40"
+              style={{ fontFamily: '"Orbitron", sans-serif' }}
+            >
+              {(Object.keys(POWER_UP_TICKS) as PowerUpType[])
+                .filter(type => snapshot.effects[type] > 0)
+                .map(type => (
+                  <div key={type}>
+                    <div className="text-xs tracking-widest mb-1" style={hudText(POWER_UP_COLORS[type])}>
+                      {POWER_UP_LABELS[type]}
+                    </div>
+                    <div
+                      className="h-1.5 w-full"
+                      style={{
+                        background: accessibility.highContrast ? '#000000' : 'rgba(255, 255, 255, 0.1)',
+                        border: accessibility.highContrast ? '1px solid #ffffff' : undefined
+                      }}
+                    >
+                      <div
+                        className="h-full"
+                        style={{
+                          width: `${(snapshot.effects[type] / POWER_UP_TICKS[type]) * 100}%`,
+                          background: accessibility.highContrast ? '#ffffff' : POWER_UP_COLORS[type],
+                          boxShadow: accessibility.highContrast ? undefined : `0 0 10px ${POWER_UP_COLORS[type]}`
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+            </div>
+
+            {/* Difficulty tier */}
+            {tierBanner && (
+              <div className={`absolute top-1/4 left-0 right-0 text-center${pulse}`}>
+                <div
+                  className={`text-xs md:text-sm tracking-[0.5em]${accessibility.highContrast ? '' : ' opacity-70'}`}
+                  style={hudText('#05d9e8')}
+                >
+                  ENTERING
+                </div>
+                <div
+                  className="text-3xl md:text-5xl font-black tracking-widest"
+                  style={hudText('#d300c5', '0 0 30px rgba(211, 0, 197, 0.7)')}
+                >
+                  {tierBanner.toUpperCase()}
+                </div>
+              </div>
+            )}
+
+            {/* Biome */}
+            {biomeBanner && (
+              <div
+                className={`absolute top-[40%] left-0 right-0 text-center text-lg md:text-2xl tracking-[0.4em]${pulse}`}
+                style={hudText(look.ground.grid, `0 0 20px ${look.ground.grid}`)}
+              >
+                {biomeBanner.toUpperCase()}
+              </div>
+            )}
+
             {/* Mobile Controls */}
             <div className="absolute bottom-20 left-0 right-0 flex justify-center gap-4 md:hidden pointer-events-auto">
               <button
@@ -789,6 +1536,17 @@ export default function App() {
               >
                 <span className="text-2xl" style={{ color: '#ffdd00' }}>↑</span>
               </button>
+              <button
+                onTouchStart={(e) => { e.preventDefault(); slide(); }}
+                className="w-16 h-16 rounded-full flex items-center justify-center active:scale-90 transition-transform"
+                style={{
+                  background: 'rgba(211, 0, 197, 0.3)',
+                  border: '2px solid rgba(211, 0, 197, 0.6)',
+                  boxShadow: '0 0 20px rgba(211, 0, 197, 0.3)'
+                }}
+              >
+                <span className="text-2xl" style={{ color: '#d300c5' }}>↓</span>
+              </button>
               <button
                 onTouchStart={(e) => { e.preventDefault(); moveRight(); }}
                 className="w-16 h-16 rounded-full flex items-center justify-center active:scale-90 transition-transform"
@@ -803,8 +1561,41 @@ export default function App() {
             </div>
           </>
         )}
+
+        {/* Unlock toasts, above the game over screen */}
+        {(gameState === 'playing' || gameState === 'gameover') && <AchievementToasts toasts={toasts} />}
       </div>
 
+      {/* Local versus */}
+      {versusOpen && (
+        <Versus
+          audio={audioRef.current}
+          bindings={bindings}
+          quality={quality}
+          palette={palette}
+          shapeCues={accessibility.shapeCues}
+          reducedMotion={reducedMotion}
+          onAnnounce={announce}
+          onExit={() => setVersusOpen(false)}
+        />
+      )}
+
+      {/* Course editor, which returns to the title screen when done */}
+      {editorOpen && (
+        <CourseEditor
+          library={courseLibrary}
+          initialCourseId={courseRun?.course.id ?? null}
+          initialPlayhead={courseRun?.from ?? 0}
+          colors={palette ?? BIOMES[0].obstacles}
+          onChange={updateCourses}
+          onPlay={startCourse}
+          onClose={() => {
+            setEditorOpen(false)
+            goToMenu()
+          }}
+        />
+      )}
+
       {/* Footer */}
       <footer
         className="absolute bottom-2 md:bottom-4 left-0 right-0 text-center text-xs md:text-sm pointer-events-none"
@@ -0,0 +1,45 @@
+import type { ObstacleType } from '../game/types'
+
+// Hazard colors. 'biome' follows the current biome; the others are fixed palettes chosen
+// to stay distinct under the common forms of color blindness.
+export type ColorPalette = 'biome' | 'redGreen' | 'blueYellow'
+
+export const COLOR_PALETTES: ColorPalette[] = ['biome', 'redGreen', 'blueYellow']
+
+export const PALETTE_LABELS: Record<ColorPalette, string> = {
+  biome: 'BIOME',
+  redGreen: 'RED-GREEN SAFE',
+  blueYellow: 'BLUE-YELLOW SAFE'
+}
+
+export const HAZARD_PALETTES: Record<Exclude<ColorPalette, 'biome'>, Record<ObstacleType, string>> = {
+  // Deuteranopia and protanopia
+  redGreen: { crystal: '#0072b2', spike: '#e69f00', ring: '#f0f0f0', barrier: '#cc79a7', laser: '#f0e442' },
+  // Tritanopia
+  blueYellow: { crystal: '#e8384f', spike: '#00c2c7', ring: '#f0f0f0', barrier: '#ff8ec6', laser: '#c8ff00' }
+}
+
+// 'system' follows the prefers-reduced-motion media query
+export type ReducedMotion = 'system' | 'on' | 'off'
+
+export interface AccessibilitySettings {
+  palette: ColorPalette
+  // Ground markings under each hazard, shaped by type
+  shapeCues: boolean
+  reducedMotion: ReducedMotion
+  highContrast: boolean
+  // Screen reader announcements for game state and score
+  announcements: boolean
+}
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  palette: 'biome',
+  shapeCues: false,
+  reducedMotion: 'system',
+  highContrast: false,
+  announcements: true
+}
+
+export function hazardPalette(palette: ColorPalette) {
+  return palette === 'biome' ? null : HAZARD_PALETTES[palette]
+}
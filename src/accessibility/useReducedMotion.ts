@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react'
+import type { ReducedMotion } from './settings'
+
+const QUERY = '(prefers-reduced-motion: reduce)'
+
+// Whether to cut motion, following the operating system unless the setting overrides it
+export function useReducedMotion(setting: ReducedMotion) {
+  const [systemPrefers, setSystemPrefers] = useState(() => window.matchMedia?.(QUERY).matches ?? false)
+
+  useEffect(() => {
+    const media = window.matchMedia?.(QUERY)
+    if (!media) return
+    const handleChange = () => setSystemPrefers(media.matches)
+    media.addEventListener('change', handleChange)
+    return () => media.removeEventListener('change', handleChange)
+  }, [])
+
+  return setting === 'system' ? systemPrefers : setting === 'on'
+}
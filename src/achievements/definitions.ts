@@ -0,0 +1,114 @@
+import type { ObstacleType } from '../game/types'
+
+// Everything achievements and missions can count. Most are tallied from game events;
+// distance and score are read from the run itself.
+export type Metric =
+  | 'runs'
+  | 'distance'
+  | 'score'
+  | 'jumps'
+  | 'nearMisses'
+  | 'laneStreak'
+  | 'shards'
+  | 'powerUps'
+  | 'crystalsCleared'
+  | 'spikesCleared'
+  | 'ringsCleared'
+  | 'barriersCleared'
+  | 'lasersCleared'
+
+export const METRICS: Metric[] = [
+  'runs',
+  'distance',
+  'score',
+  'jumps',
+  'nearMisses',
+  'laneStreak',
+  'shards',
+  'powerUps',
+  'crystalsCleared',
+  'spikesCleared',
+  'ringsCleared',
+  'barriersCleared',
+  'lasersCleared'
+]
+
+// How a metric carries across runs: 'sum' adds every run's count, 'best' keeps the highest
+export const METRIC_TOTALS: Record<Metric, 'sum' | 'best'> = {
+  runs: 'sum',
+  distance: 'best',
+  score: 'best',
+  jumps: 'sum',
+  nearMisses: 'sum',
+  laneStreak: 'best',
+  shards: 'sum',
+  powerUps: 'sum',
+  crystalsCleared: 'sum',
+  spikesCleared: 'sum',
+  ringsCleared: 'sum',
+  barriersCleared: 'sum',
+  lasersCleared: 'sum'
+}
+
+export const CLEAR_METRICS: Record<ObstacleType, Metric> = {
+  crystal: 'crystalsCleared',
+  spike: 'spikesCleared',
+  ring: 'ringsCleared',
+  barrier: 'barriersCleared',
+  laser: 'lasersCleared'
+}
+
+// 'run' goals must be reached within a single run; 'lifetime' goals add up across runs
+export type GoalScope = 'run' | 'lifetime'
+
+export interface Achievement {
+  id: string
+  title: string
+  description: string
+  metric: Metric
+  goal: number
+  scope: GoalScope
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'first-run', title: 'FIRST STEPS', description: 'Finish a run', metric: 'runs', goal: 1, scope: 'lifetime' },
+  { id: 'runs-25', title: 'REGULAR', description: 'Play 25 runs', metric: 'runs', goal: 25, scope: 'lifetime' },
+  { id: 'runs-100', title: 'VOID DWELLER', description: 'Play 100 runs', metric: 'runs', goal: 100, scope: 'lifetime' },
+  { id: 'distance-500', title: 'WARMED UP', description: 'Reach 500m in one run', metric: 'distance', goal: 500, scope: 'run' },
+  { id: 'distance-2000', title: 'LONG HAUL', description: 'Reach 2000m in one run', metric: 'distance', goal: 2000, scope: 'run' },
+  { id: 'distance-5000', title: 'ENDLESS', description: 'Reach 5000m in one run', metric: 'distance', goal: 5000, scope: 'run' },
+  { id: 'score-10000', title: 'FIVE DIGITS', description: 'Score 10000 in one run', metric: 'score', goal: 10000, scope: 'run' },
+  { id: 'rings-100', title: 'RING LEADER', description: 'Jump through 100 rings', metric: 'ringsCleared', goal: 100, scope: 'lifetime' },
+  { id: 'spikes-100', title: 'SPIKE JUMPER', description: 'Jump 100 spikes', metric: 'spikesCleared', goal: 100, scope: 'lifetime' },
+  { id: 'crystals-100', title: 'CRYSTAL CLEAR', description: 'Jump 100 crystals', metric: 'crystalsCleared', goal: 100, scope: 'lifetime' },
+  { id: 'barriers-50', title: 'LIMBO', description: 'Slide under 50 barriers', metric: 'barriersCleared', goal: 50, scope: 'lifetime' },
+  { id: 'near-miss-10', title: 'CLOSE CALL', description: 'Get 10 near misses in one run', metric: 'nearMisses', goal: 10, scope: 'run' },
+  { id: 'lane-streak-8', title: 'WEAVER', description: 'Change lanes 8 times in a row', metric: 'laneStreak', goal: 8, scope: 'run' },
+  { id: 'shards-500', title: 'COLLECTOR', description: 'Collect 500 shards', metric: 'shards', goal: 500, scope: 'lifetime' },
+  { id: 'power-ups-25', title: 'POWERED UP', description: 'Pick up 25 power-ups', metric: 'powerUps', goal: 25, scope: 'lifetime' },
+  { id: 'jumps-1000', title: 'FREQUENT FLYER', description: 'Jump 1000 times', metric: 'jumps', goal: 1000, scope: 'lifetime' }
+]
+
+// Missions are drawn from these templates, with one of the goals picked at random.
+// `{goal}` in the description is replaced by the chosen goal.
+export interface MissionTemplate {
+  metric: Metric
+  scope: GoalScope
+  goals: number[]
+  description: string
+}
+
+export const MISSION_TEMPLATES: MissionTemplate[] = [
+  { metric: 'ringsCleared', scope: 'run', goals: [5, 10, 20], description: 'Jump {goal} rings in one run' },
+  { metric: 'spikesCleared', scope: 'run', goals: [5, 10, 15], description: 'Jump {goal} spikes in one run' },
+  { metric: 'barriersCleared', scope: 'run', goals: [3, 6, 10], description: 'Slide under {goal} barriers in one run' },
+  { metric: 'lasersCleared', scope: 'run', goals: [3, 6, 10], description: 'Get past {goal} laser gates in one run' },
+  { metric: 'nearMisses', scope: 'run', goals: [3, 5, 8], description: 'Get {goal} near misses in one run' },
+  { metric: 'laneStreak', scope: 'run', goals: [4, 5, 6], description: 'Change lanes {goal} times in a row' },
+  { metric: 'distance', scope: 'run', goals: [300, 800, 1500], description: 'Reach {goal}m in one run' },
+  { metric: 'shards', scope: 'lifetime', goals: [50, 100, 200], description: 'Collect {goal} shards' },
+  { metric: 'powerUps', scope: 'lifetime', goals: [3, 5, 10], description: 'Pick up {goal} power-ups' },
+  { metric: 'runs', scope: 'lifetime', goals: [3, 5, 10], description: 'Play {goal} runs' }
+]
+
+export const ACTIVE_MISSIONS = 3
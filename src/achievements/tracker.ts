@@ -0,0 +1,165 @@
+import { TICK_RATE } from '../game/constants'
+import type { GameEvent } from '../game/types'
+import {
+  ACHIEVEMENTS,
+  ACTIVE_MISSIONS,
+  CLEAR_METRICS,
+  METRICS,
+  METRIC_TOTALS,
+  MISSION_TEMPLATES,
+  type Achievement,
+  type GoalScope,
+  type Metric
+} from './definitions'
+
+// Lane changes further apart than this break a streak
+const LANE_STREAK_TICKS = TICK_RATE
+
+export interface Mission {
+  id: number
+  metric: Metric
+  scope: GoalScope
+  goal: number
+  description: string
+  // Lifetime total when the mission was handed out, so only later progress counts
+  baseline: number
+  completed: boolean
+}
+
+// Everything saved between sessions
+export interface AchievementProgress {
+  // Unlock dates by achievement id
+  unlocked: Record<string, string>
+  totals: Record<Metric, number>
+  missions: Mission[]
+  nextMissionId: number
+}
+
+export interface AchievementTracker {
+  progress: AchievementProgress
+  // Counts for the run in progress
+  run: Record<Metric, number>
+  laneStreak: number
+  lastLaneChange: number
+}
+
+export type Unlock =
+  | { kind: 'achievement', achievement: Achievement }
+  | { kind: 'mission', mission: Mission }
+
+export function emptyTotals() {
+  return Object.fromEntries(METRICS.map(metric => [metric, 0])) as Record<Metric, number>
+}
+
+function combine(metric: Metric, total: number, run: number) {
+  return METRIC_TOTALS[metric] === 'sum' ? total + run : Math.max(total, run)
+}
+
+// Hand out a mission for a metric no active mission is already counting
+export function createMission(progress: AchievementProgress, random: () => number = Math.random): Mission {
+  const taken = new Set(progress.missions.filter(mission => !mission.completed).map(mission => mission.metric))
+  const open = MISSION_TEMPLATES.filter(template => !taken.has(template.metric))
+  const template = open[Math.floor(random() * open.length)] ?? MISSION_TEMPLATES[0]
+  const goal = template.goals[Math.floor(random() * template.goals.length)]
+  return {
+    id: progress.nextMissionId++,
+    metric: template.metric,
+    scope: template.scope,
+    goal,
+    description: template.description.replace('{goal}', String(goal)),
+    baseline: progress.totals[template.metric],
+    completed: false
+  }
+}
+
+// Replace completed missions and top up to ACTIVE_MISSIONS
+export function rotateMissions(progress: AchievementProgress) {
+  progress.missions = progress.missions.filter(mission => !mission.completed)
+  while (progress.missions.length < ACTIVE_MISSIONS) {
+    progress.missions.push(createMission(progress))
+  }
+}
+
+export function createTracker(progress: AchievementProgress): AchievementTracker {
+  return { progress, run: emptyTotals(), laneStreak: 0, lastLaneChange: -Infinity }
+}
+
+export function startRun(tracker: AchievementTracker) {
+  tracker.run = emptyTotals()
+  tracker.laneStreak = 0
+  tracker.lastLaneChange = -Infinity
+}
+
+// Current value towards a goal: this run's count for run goals, otherwise the lifetime
+// total including the run so far
+export function goalValue(tracker: AchievementTracker, metric: Metric, scope: GoalScope, baseline = 0) {
+  if (scope === 'run') return tracker.run[metric]
+  return combine(metric, tracker.progress.totals[metric], tracker.run[metric]) - baseline
+}
+
+function collectUnlocks(tracker: AchievementTracker): Unlock[] {
+  const { progress } = tracker
+  const unlocks: Unlock[] = []
+  for (const achievement of ACHIEVEMENTS) {
+    if (progress.unlocked[achievement.id]) continue
+    if (goalValue(tracker, achievement.metric, achievement.scope) >= achievement.goal) {
+      progress.unlocked[achievement.id] = new Date().toISOString()
+      unlocks.push({ kind: 'achievement', achievement })
+    }
+  }
+  for (const mission of progress.missions) {
+    if (mission.completed) continue
+    if (goalValue(tracker, mission.metric, mission.scope, mission.baseline) >= mission.goal) {
+      mission.completed = true
+      unlocks.push({ kind: 'mission', mission })
+    }
+  }
+  return unlocks
+}
+
+export function trackEvent(tracker: AchievementTracker, event: GameEvent): Unlock[] {
+  const { run } = tracker
+  switch (event.type) {
+    case 'jump':
+      run.jumps++
+      break
+    case 'nearMiss':
+      run.nearMisses++
+      break
+    case 'clear':
+      run[CLEAR_METRICS[event.obstacle]]++
+      break
+    case 'pickup':
+      if (event.pickup === 'shard') run.shards++
+      else run.powerUps++
+      break
+    case 'laneChange':
+      tracker.laneStreak = event.tick - tracker.lastLaneChange <= LANE_STREAK_TICKS ? tracker.laneStreak + 1 : 1
+      tracker.lastLaneChange = event.tick
+      run.laneStreak = Math.max(run.laneStreak, tracker.laneStreak)
+      break
+    default:
+      return []
+  }
+  return collectUnlocks(tracker)
+}
+
+// Distance and score aren't events, so they are sampled as the run goes
+export function trackRun(tracker: AchievementTracker, { distance, score }: { distance: number, score: number }) {
+  tracker.run.distance = Math.floor(distance)
+  tracker.run.score = score
+  return collectUnlocks(tracker)
+}
+
+// Count the finished run, fold it into the lifetime totals and rotate completed missions
+export function finishRun(tracker: AchievementTracker, run: { distance: number, score: number }) {
+  tracker.run.runs = 1
+  const unlocks = trackRun(tracker, run)
+  const { totals } = tracker.progress
+  for (const metric of METRICS) {
+    totals[metric] = combine(metric, totals[metric], tracker.run[metric])
+  }
+  rotateMissions(tracker.progress)
+  startRun(tracker)
+  return unlocks
+}
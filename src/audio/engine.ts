@@ -0,0 +1,96 @@
+import type { DifficultyTier } from '../game/difficulty'
+import type { GameEvent } from '../game/types'
+import { createMusic, type Music } from './music'
+import { playEventSound } from './sfx'
+
+export interface AudioSettings {
+  // Volumes from 0 to 1
+  master: number
+  music: number
+  sfx: number
+  muted: boolean
+  // Delay obstacle spawns so they arrive on the beat
+  beatSync: boolean
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: 0.8,
+  music: 0.6,
+  sfx: 0.8,
+  muted: false,
+  beatSync: false
+}
+
+export interface AudioEngine {
+  // Browsers only allow audio after a user gesture, so call this from one
+  unlock: () => void
+  applySettings: (settings: AudioSettings) => void
+  playEvent: (event: GameEvent) => void
+  startMusic: (getPosition: () => number) => void
+  stopMusic: () => void
+  setTier: (tier: DifficultyTier) => void
+}
+
+interface AudioGraph {
+  ctx: AudioContext
+  master: GainNode
+  music: GainNode
+  sfx: GainNode
+  sequencer: Music
+}
+
+// Owns the AudioContext and the master / music / sfx buses. The context is
+// created on the first unlock, and every call before that is a no-op.
+export function createAudioEngine(): AudioEngine {
+  let graph: AudioGraph | null = null
+  let settings = DEFAULT_AUDIO_SETTINGS
+  let tier: DifficultyTier = 'warm-up'
+
+  const applyGains = () => {
+    if (!graph) return
+    const { ctx, master, music, sfx } = graph
+    master.gain.setTargetAtTime(settings.muted ? 0 : settings.master, ctx.currentTime, 0.02)
+    music.gain.setTargetAtTime(settings.music, ctx.currentTime, 0.02)
+    sfx.gain.setTargetAtTime(settings.sfx, ctx.currentTime, 0.02)
+  }
+
+  return {
+    unlock() {
+      if (!graph) {
+        if (typeof AudioContext === 'undefined') return
+        const ctx = new AudioContext()
+        const master = ctx.createGain()
+        const music = ctx.createGain()
+        const sfx = ctx.createGain()
+        music.connect(master)
+        sfx.connect(master)
+        master.connect(ctx.destination)
+        graph = { ctx, master, music, sfx, sequencer: createMusic(ctx, music) }
+        graph.sequencer.setTier(tier)
+        applyGains()
+      }
+      if (graph.ctx.state === 'suspended') {
+        // Another gesture will try again
+        graph.ctx.resume().catch(() => {})
+      }
+    },
+    applySettings(next) {
+      settings = next
+      applyGains()
+    },
+    playEvent(event) {
+      if (!graph || settings.muted) return
+      playEventSound(graph.ctx, graph.sfx, event)
+    },
+    startMusic(getPosition) {
+      graph?.sequencer.start(getPosition)
+    },
+    stopMusic() {
+      graph?.sequencer.stop()
+    },
+    setTier(next) {
+      tier = next
+      graph?.sequencer.setTier(next)
+    }
+  }
+}
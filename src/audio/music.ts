@@ -0,0 +1,102 @@
+import { TICK_MS, TICKS_PER_BEAT } from '../game/constants'
+import type { DifficultyTier } from '../game/difficulty'
+import { midiToFrequency, playNoise, playTone } from './synth'
+
+// Sixteenth notes, 16 per bar
+const TICKS_PER_STEP = TICKS_PER_BEAT / 4
+const STEPS_PER_BAR = 16
+
+// How far ahead notes are scheduled, and how often the scheduler wakes up
+const LOOKAHEAD_SECONDS = 0.12
+const SCHEDULE_INTERVAL_MS = 25
+
+// Am - F - C - G, one chord per bar, as MIDI notes (root first)
+const PROGRESSION = [
+  [57, 60, 64],
+  [53, 57, 60],
+  [48, 52, 55],
+  [55, 59, 62]
+]
+
+// Layers join as the run gets harder
+const LAYERS: Record<DifficultyTier, { hats: boolean, snare: boolean, arp: boolean }> = {
+  'warm-up': { hats: true, snare: false, arp: false },
+  surge: { hats: true, snare: true, arp: false },
+  void: { hats: true, snare: true, arp: true }
+}
+
+export interface Music {
+  // getPosition returns the song position in (fractional) simulation ticks
+  start: (getPosition: () => number) => void
+  stop: () => void
+  setTier: (tier: DifficultyTier) => void
+}
+
+// Step sequencer clocked by the simulation rather than the wall clock, so beats
+// line up with beat-synced obstacle spawns even if frames are dropped.
+export function createMusic(ctx: AudioContext, output: AudioNode): Music {
+  let timer: ReturnType<typeof setInterval> | null = null
+  let nextStep = 0
+  let tier: DifficultyTier = 'warm-up'
+
+  const scheduleStep = (step: number, at: number) => {
+    const inBar = step % STEPS_PER_BAR
+    const chord = PROGRESSION[Math.floor(step / STEPS_PER_BAR) % PROGRESSION.length]
+    const layers = LAYERS[tier]
+    const stepSeconds = (TICKS_PER_STEP * TICK_MS) / 1000
+
+    // Four on the floor
+    if (inBar % 4 === 0) {
+      playTone(ctx, output, { type: 'sine', from: 150, to: 40, duration: 0.25, gain: 0.8, at })
+    }
+    if (layers.snare && inBar % 8 === 4) {
+      playNoise(ctx, output, { filter: 'bandpass', from: 1800, duration: 0.18, gain: 0.35, at })
+    }
+    if (layers.hats && inBar % 4 === 2) {
+      playNoise(ctx, output, { filter: 'highpass', from: 7000, duration: 0.05, gain: 0.15, at })
+    }
+
+    // Driving eighth-note bass, jumping an octave on the offbeat
+    if (inBar % 2 === 0) {
+      const note = chord[0] - 24 + (inBar % 4 === 2 ? 12 : 0)
+      playTone(ctx, output, { type: 'sawtooth', from: midiToFrequency(note), duration: stepSeconds * 1.8, gain: 0.25, cutoff: 600, at })
+    }
+
+    if (layers.arp) {
+      const note = chord[inBar % chord.length] + 12
+      playTone(ctx, output, { type: 'square', from: midiToFrequency(note), duration: stepSeconds * 0.9, gain: 0.06, cutoff: 2500, at })
+    }
+  }
+
+  const schedule = (getPosition: () => number) => {
+    const position = getPosition()
+    const now = ctx.currentTime
+    const horizon = position + (LOOKAHEAD_SECONDS * 1000) / TICK_MS
+
+    // Skip anything that should already have played
+    nextStep = Math.max(nextStep, Math.ceil(position / TICKS_PER_STEP))
+    while (nextStep * TICKS_PER_STEP < horizon) {
+      const at = now + ((nextStep * TICKS_PER_STEP - position) * TICK_MS) / 1000
+      scheduleStep(nextStep, at)
+      nextStep++
+    }
+  }
+
+  const stop = () => {
+    if (timer !== null) clearInterval(timer)
+    timer = null
+  }
+
+  return {
+    start(getPosition) {
+      stop()
+      nextStep = 0
+      schedule(getPosition)
+      timer = setInterval(() => schedule(getPosition), SCHEDULE_INTERVAL_MS)
+    },
+    stop,
+    setTier(next) {
+      tier = next
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import type { GameEvent } from '../game/types'
+import { playNoise, playTone } from './synth'
+
+// Short synthesized cues for gameplay events
+export function playEventSound(ctx: AudioContext, output: AudioNode, event: GameEvent) {
+  switch (event.type) {
+    case 'laneChange':
+      playTone(ctx, output, { type: 'square', from: 660, to: 880, duration: 0.06, gain: 0.15, cutoff: 3000 })
+      break
+    case 'jump':
+      playTone(ctx, output, { type: 'triangle', from: 220, to: 880, duration: 0.18, gain: 0.3 })
+      break
+    case 'slide':
+      playNoise(ctx, output, { filter: 'bandpass', from: 2400, to: 600, duration: 0.2, gain: 0.25 })
+      break
+    case 'land':
+      playTone(ctx, output, { type: 'sine', from: 140, to: 50, duration: 0.12, gain: 0.5 })
+      break
+    case 'nearMiss':
+      playNoise(ctx, output, { filter: 'bandpass', from: 600, to: 4000, duration: 0.25, gain: 0.35 })
+      break
+    case 'bonus':
+      if (event.bonus === 'ring') {
+        playTone(ctx, output, { type: 'triangle', from: 880, to: 1760, duration: 0.2, gain: 0.25 })
+      }
+      break
+    case 'combo':
+      // Climbs with the multiplier; a broken combo drops back down
+      playTone(ctx, output, { type: 'square', from: 330 * event.multiplier, duration: 0.12, gain: 0.12, cutoff: 3000 })
+      break
+    case 'pickup':
+      if (event.pickup === 'shard') {
+        playTone(ctx, output, { type: 'sine', from: 1320, duration: 0.1, gain: 0.2 })
+        playTone(ctx, output, { type: 'sine', from: 1980, duration: 0.12, gain: 0.15, at: ctx.currentTime + 0.05 })
+      } else {
+        // Rising arpeggio for power-ups
+        ;[523, 659, 784, 1047].forEach((frequency, i) => {
+          playTone(ctx, output, { type: 'square', from: frequency, duration: 0.1, gain: 0.12, cutoff: 4000, at: ctx.currentTime + i * 0.05 })
+        })
+      }
+      break
+    case 'shieldBreak':
+      playNoise(ctx, output, { filter: 'highpass', from: 3000, duration: 0.3, gain: 0.4 })
+      playTone(ctx, output, { type: 'sawtooth', from: 880, to: 220, duration: 0.3, gain: 0.2, cutoff: 2500 })
+      break
+    case 'gameOver':
+      playNoise(ctx, output, { filter: 'lowpass', from: 2000, to: 100, duration: 0.6, gain: 0.6 })
+      playTone(ctx, output, { type: 'sawtooth', from: 440, to: 55, duration: 1.2, gain: 0.35, cutoff: 1500 })
+      break
+    case 'finish':
+      // Power-up arpeggio, held on the top note
+      ;[523, 659, 784, 1047].forEach((frequency, i) => {
+        playTone(ctx, output, { type: 'square', from: frequency, duration: i === 3 ? 0.5 : 0.12, gain: 0.15, cutoff: 4000, at: ctx.currentTime + i * 0.1 })
+      })
+      break
+  }
+}
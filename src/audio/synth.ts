@@ -0,0 +1,91 @@
+// Small building blocks shared by the sound effects and the music sequencer.
+// Everything is synthesized on the fly, so the game ships no audio files.
+
+export interface ToneOptions {
+  type?: OscillatorType
+  // Frequency in Hz at the start and (optionally) end of the note
+  from: number
+  to?: number
+  duration: number
+  gain: number
+  // AudioContext time to start at, defaults to now
+  at?: number
+  // Optional lowpass cutoff in Hz
+  cutoff?: number
+}
+
+export function midiToFrequency(note: number) {
+  return 440 * 2 ** ((note - 69) / 12)
+}
+
+// A single oscillator note with a fast attack and exponential decay
+export function playTone(ctx: AudioContext, output: AudioNode, options: ToneOptions) {
+  const { type = 'sine', from, to, duration, gain, at = ctx.currentTime, cutoff } = options
+  const osc = ctx.createOscillator()
+  const amp = ctx.createGain()
+
+  osc.type = type
+  osc.frequency.setValueAtTime(from, at)
+  if (to !== undefined) osc.frequency.exponentialRampToValueAtTime(to, at + duration)
+
+  amp.gain.setValueAtTime(0.0001, at)
+  amp.gain.exponentialRampToValueAtTime(gain, at + 0.005)
+  amp.gain.exponentialRampToValueAtTime(0.0001, at + duration)
+
+  if (cutoff !== undefined) {
+    const filter = ctx.createBiquadFilter()
+    filter.type = 'lowpass'
+    filter.frequency.value = cutoff
+    osc.connect(filter).connect(amp)
+  } else {
+    osc.connect(amp)
+  }
+  amp.connect(output)
+
+  osc.start(at)
+  osc.stop(at + duration + 0.05)
+}
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>()
+
+// One second of white noise, generated once per context
+function getNoiseBuffer(ctx: AudioContext) {
+  let buffer = noiseBuffers.get(ctx)
+  if (!buffer) {
+    buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate)
+    const data = buffer.getChannelData(0)
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1
+    noiseBuffers.set(ctx, buffer)
+  }
+  return buffer
+}
+
+export interface NoiseOptions {
+  duration: number
+  gain: number
+  at?: number
+  filter: BiquadFilterType
+  // Filter frequency at the start and (optionally) end of the burst
+  from: number
+  to?: number
+}
+
+// Filtered noise burst, used for drums and whooshes
+export function playNoise(ctx: AudioContext, output: AudioNode, options: NoiseOptions) {
+  const { duration, gain, at = ctx.currentTime, filter: filterType, from, to } = options
+  const source = ctx.createBufferSource()
+  const filter = ctx.createBiquadFilter()
+  const amp = ctx.createGain()
+
+  source.buffer = getNoiseBuffer(ctx)
+  filter.type = filterType
+  filter.frequency.setValueAtTime(from, at)
+  if (to !== undefined) filter.frequency.exponentialRampToValueAtTime(to, at + duration)
+
+  amp.gain.setValueAtTime(gain, at)
+  amp.gain.exponentialRampToValueAtTime(0.0001, at + duration)
+
+  source.connect(filter).connect(amp).connect(output)
+  source.start(at)
+  source.stop(at + duration + 0.05)
+}
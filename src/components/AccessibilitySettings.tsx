@@ -0,0 +1,120 @@
+import {
+  COLOR_PALETTES,
+  DEFAULT_ACCESSIBILITY_SETTINGS,
+  HAZARD_PALETTES,
+  PALETTE_LABELS,
+  type AccessibilitySettings as AccessibilitySettingsValue,
+  type ReducedMotion
+} from '../accessibility/settings'
+import type { ObstacleType } from '../game/types'
+
+const HAZARDS: ObstacleType[] = ['crystal', 'spike', 'ring', 'barrier', 'laser']
+const MOTION_OPTIONS: ReducedMotion[] = ['system', 'on', 'off']
+
+// Settings screen for color palettes, hazard cues, motion, contrast and announcements
+export default function AccessibilitySettings({
+  settings,
+  onChange,
+  onClose
+}: {
+  settings: AccessibilitySettingsValue
+  onChange: (settings: AccessibilitySettingsValue) => void
+  onClose: () => void
+}) {
+  const toggle = (key: 'shapeCues' | 'highContrast' | 'announcements', label: string, hint: string) => (
+    <label className="mt-3 flex items-center gap-3 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={settings[key]}
+        onChange={(e) => onChange({ ...settings, [key]: e.target.checked })}
+      />
+      <span className="w-40">{label}</span>
+      <span className="flex-1 opacity-60">{hint}</span>
+    </label>
+  )
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/70 pointer-events-auto">
+      <div
+        className="w-full max-w-md p-6 text-xs md:text-sm"
+        style={{ fontFamily: '"Orbitron", sans-serif', color: '#05d9e8' }}
+      >
+        <h2
+          className="text-2xl md:text-3xl font-black tracking-wider mb-6 text-center"
+          style={{ color: '#05d9e8', textShadow: '0 0 30px rgba(5, 217, 232, 0.6)' }}
+        >
+          ACCESSIBILITY
+        </h2>
+
+        <div className="mb-1 opacity-60">HAZARD COLORS</div>
+        {COLOR_PALETTES.map(palette => (
+          <label key={palette} className="mt-2 flex items-center gap-3 cursor-pointer">
+            <input
+              type="radio"
+              name="palette"
+              checked={settings.palette === palette}
+              onChange={() => onChange({ ...settings, palette })}
+            />
+            <span className="flex-1">{PALETTE_LABELS[palette]}</span>
+            {palette !== 'biome' && (
+              <span className="flex gap-1" aria-hidden="true">
+                {HAZARDS.map(hazard => (
+                  <span
+                    key={hazard}
+                    className="w-4 h-4 inline-block"
+                    style={{ background: HAZARD_PALETTES[palette][hazard], borderRadius: '2px' }}
+                  />
+                ))}
+              </span>
+            )}
+          </label>
+        ))}
+
+        <div className="mt-4 mb-1 opacity-60">REDUCED MOTION</div>
+        <div className="flex gap-2">
+          {MOTION_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => onChange({ ...settings, reducedMotion: option })}
+              aria-pressed={settings.reducedMotion === option}
+              className="flex-1 px-2 py-1 font-bold tracking-wider uppercase"
+              style={{
+                color: settings.reducedMotion === option ? '#0a0a0f' : '#05d9e8',
+                background: settings.reducedMotion === option ? '#05d9e8' : 'transparent',
+                border: '1px solid rgba(5, 217, 232, 0.5)',
+                borderRadius: '4px'
+              }}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        {toggle('shapeCues', 'SHAPE CUES', 'GROUND MARKS SHAPED BY HAZARD')}
+        {toggle('highContrast', 'HIGH CONTRAST', 'SOLID HUD WITH PLAIN TEXT')}
+        {toggle('announcements', 'ANNOUNCEMENTS', 'SCREEN READER UPDATES')}
+
+        <div className="mt-6 flex justify-center gap-3">
+          <button
+            onClick={() => onChange({ ...DEFAULT_ACCESSIBILITY_SETTINGS })}
+            className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+            style={{ color: '#ff2a6d', border: '1px solid rgba(255, 42, 109, 0.5)', borderRadius: '4px' }}
+          >
+            RESET DEFAULTS
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+            style={{
+              background: 'linear-gradient(135deg, #05d9e8 0%, #d300c5 100%)',
+              color: '#0a0a0f',
+              borderRadius: '4px'
+            }}
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import type { Unlock } from '../achievements/tracker'
+
+export interface Toast {
+  id: number
+  unlock: Unlock
+}
+
+// Stack of recent unlocks, shown over play and the game over screen
+export default function AchievementToasts({ toasts }: { toasts: Toast[] }) {
+  if (toasts.length === 0) return null
+
+  return (
+    <div className="absolute bottom-40 left-0 right-0 flex flex-col items-center gap-2 pointer-events-none">
+      {toasts.map(({ id, unlock }) => {
+        const color = unlock.kind === 'achievement' ? '#ffdd00' : '#05d9e8'
+        return (
+          <div
+            key={id}
+            className="px-4 py-2 text-xs md:text-sm tracking-wider text-center"
+            style={{
+              fontFamily: '"Orbitron", sans-serif',
+              color,
+              background: 'rgba(10, 10, 15, 0.85)',
+              border: `1px solid ${color}`,
+              borderRadius: '4px',
+              boxShadow: `0 0 20px ${color}55`
+            }}
+          >
+            <div className="opacity-70">{unlock.kind === 'achievement' ? 'ACHIEVEMENT UNLOCKED' : 'MISSION COMPLETE'}</div>
+            <div className="font-bold">
+              {unlock.kind === 'achievement' ? unlock.achievement.title : unlock.mission.description.toUpperCase()}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import { ACHIEVEMENTS, METRIC_TOTALS } from '../achievements/definitions'
+import { goalValue, type AchievementTracker } from '../achievements/tracker'
+
+function ProgressBar({ value, goal, color }: { value: number, goal: number, color: string }) {
+  return (
+    <div className="h-1 w-full mt-1" style={{ background: 'rgba(255, 255, 255, 0.1)' }}>
+      <div className="h-full" style={{ width: `${Math.min(1, value / goal) * 100}%`, background: color }} />
+    </div>
+  )
+}
+
+// Current missions and every achievement, locked or not, with progress towards each
+export default function AchievementsGallery({
+  tracker,
+  onClose
+}: {
+  tracker: AchievementTracker
+  onClose: () => void
+}) {
+  const { unlocked, missions } = tracker.progress
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => unlocked[achievement.id]).length
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/70 pointer-events-auto">
+      <div
+        className="w-full max-w-2xl max-h-full overflow-y-auto p-6 text-xs md:text-sm"
+        style={{ fontFamily: '"Orbitron", sans-serif', color: '#05d9e8' }}
+      >
+        <h2
+          className="text-2xl md:text-3xl font-black tracking-wider mb-6 text-center"
+          style={{ color: '#ffdd00', textShadow: '0 0 30px rgba(255, 221, 0, 0.6)' }}
+        >
+          ACHIEVEMENTS {unlockedCount}/{ACHIEVEMENTS.length}
+        </h2>
+
+        <div className="mb-2 tracking-widest opacity-70">MISSIONS</div>
+        <div className="grid gap-2 mb-6">
+          {missions.map(mission => {
+            const value = goalValue(tracker, mission.metric, mission.scope, mission.baseline)
+            return (
+              <div
+                key={mission.id}
+                className="px-3 py-2"
+                style={{ border: '1px solid rgba(5, 217, 232, 0.4)', borderRadius: '4px' }}
+              >
+                <div className="flex justify-between gap-3">
+                  <span>{mission.description.toUpperCase()}</span>
+                  <span className="opacity-70">
+                    {mission.completed ? 'DONE' : `${Math.min(value, mission.goal)}/${mission.goal}`}
+                  </span>
+                </div>
+                <ProgressBar value={mission.completed ? mission.goal : value} goal={mission.goal} color="#05d9e8" />
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {ACHIEVEMENTS.map(achievement => {
+            const date = unlocked[achievement.id]
+            // Run goals can only show progress for metrics whose best run is kept
+            const showProgress = !date && (achievement.scope === 'lifetime' || METRIC_TOTALS[achievement.metric] === 'best')
+            return (
+              <div
+                key={achievement.id}
+                className="px-3 py-2"
+                style={{
+                  color: date ? '#ffdd00' : '#05d9e8',
+                  opacity: date ? 1 : 0.6,
+                  border: `1px solid ${date ? 'rgba(255, 221, 0, 0.6)' : 'rgba(5, 217, 232, 0.3)'}`,
+                  borderRadius: '4px'
+                }}
+              >
+                <div className="flex justify-between gap-3">
+                  <span className="font-bold">{achievement.title}</span>
+                  {date && <span className="opacity-70">{new Date(date).toLocaleDateString()}</span>}
+                </div>
+                <div className="opacity-80">{achievement.description.toUpperCase()}</div>
+                {showProgress && (
+                  <ProgressBar value={goalValue(tracker, achievement.metric, 'lifetime')} goal={achievement.goal} color="#05d9e8" />
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="mt-6 flex justify-center">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+            style={{
+              background: 'linear-gradient(135deg, #05d9e8 0%, #d300c5 100%)',
+              color: '#0a0a0f',
+              borderRadius: '4px'
+            }}
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
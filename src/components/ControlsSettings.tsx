@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react'
+import {
+  CONTROL_ACTIONS,
+  CONTROL_LABELS,
+  DEFAULT_BINDINGS,
+  formatBindings,
+  rebind,
+  type ControlAction,
+  type InputBindings
+} from '../input/bindings'
+import { connectedGamepads } from '../input/useGamepad'
+
+type RebindTarget = { device: 'keyboard' | 'gamepad', action: ControlAction }
+
+// Settings screen for rebinding keys and gamepad buttons
+export default function ControlsSettings({
+  bindings,
+  onChange,
+  onClose
+}: {
+  bindings: InputBindings
+  onChange: (bindings: InputBindings) => void
+  onClose: () => void
+}) {
+  const [listening, setListening] = useState<RebindTarget | null>(null)
+
+  // Capture the next key press before the game's own handlers see it
+  useEffect(() => {
+    if (listening?.device !== 'keyboard') return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      if (e.code !== 'Escape') {
+        onChange(rebind(bindings, 'keyboard', listening.action, e.code))
+      }
+      setListening(null)
+    }
+    window.addEventListener('keydown', handleKeyDown, { capture: true })
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true })
+  }, [listening, bindings, onChange])
+
+  // Capture the next gamepad button that wasn't already held when listening started
+  useEffect(() => {
+    if (listening?.device !== 'gamepad') return
+    const alreadyHeld = new Set(
+      connectedGamepads().flatMap(pad =>
+        pad.buttons.map((button, index) => (button.pressed ? `${pad.index}:${index}` : '')).filter(Boolean)
+      )
+    )
+    let frame = 0
+    const poll = () => {
+      for (const pad of connectedGamepads()) {
+        const index = pad.buttons.findIndex((button, i) => button.pressed && !alreadyHeld.has(`${pad.index}:${i}`))
+        if (index !== -1) {
+          onChange(rebind(bindings, 'gamepad', listening.action, index))
+          setListening(null)
+          return
+        }
+      }
+      frame = requestAnimationFrame(poll)
+    }
+    frame = requestAnimationFrame(poll)
+    return () => cancelAnimationFrame(frame)
+  }, [listening, bindings, onChange])
+
+  const bindingButton = (device: 'keyboard' | 'gamepad', action: ControlAction) => {
+    const active = listening?.device === device && listening.action === action
+    return (
+      <button
+        onClick={() => setListening(active ? null : { device, action })}
+        className={`w-full px-2 py-1 text-left transition-all duration-300 hover:scale-105 ${active ? 'animate-pulse' : ''}`}
+        style={{
+          color: active ? '#ffdd00' : '#05d9e8',
+          border: `1px solid ${active ? 'rgba(255, 221, 0, 0.6)' : 'rgba(5, 217, 232, 0.4)'}`,
+          borderRadius: '4px'
+        }}
+      >
+        {active ? (device === 'keyboard' ? 'PRESS A KEY…' : 'PRESS A BUTTON…') : formatBindings(bindings, device, action)}
+      </button>
+    )
+  }
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/70 pointer-events-auto">
+      <div
+        className="w-full max-w-xl p-6 text-xs md:text-sm"
+        style={{ fontFamily: '"Orbitron", sans-serif', color: '#05d9e8' }}
+      >
+        <h2
+          className="text-2xl md:text-3xl font-black tracking-wider mb-6 text-center"
+          style={{ color: '#05d9e8', textShadow: '0 0 30px rgba(5, 217, 232, 0.6)' }}
+        >
+          CONTROLS
+        </h2>
+
+        <table className="w-full border-separate" style={{ borderSpacing: '8px 6px' }}>
+          <thead>
+            <tr className="opacity-60 text-left">
+              <th />
+              <th>KEYBOARD</th>
+              <th>GAMEPAD</th>
+            </tr>
+          </thead>
+          <tbody>
+            {CONTROL_ACTIONS.map(action => (
+              <tr key={action}>
+                <td className="tracking-widest whitespace-nowrap">{CONTROL_LABELS[action]}</td>
+                <td>{bindingButton('keyboard', action)}</td>
+                <td>{bindingButton('gamepad', action)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <label className="mt-4 flex items-center gap-3">
+          <span className="w-40">STICK DEADZONE</span>
+          <input
+            type="range"
+            min={0.1}
+            max={0.9}
+            step={0.05}
+            value={bindings.deadzone}
+            onChange={(e) => onChange({ ...bindings, deadzone: Number(e.target.value) })}
+            className="flex-1"
+          />
+          <span className="w-10 text-right">{bindings.deadzone.toFixed(2)}</span>
+        </label>
+        <label className="mt-2 flex items-center gap-3">
+          <span className="w-40">SWIPE DISTANCE</span>
+          <input
+            type="range"
+            min={10}
+            max={120}
+            step={5}
+            value={bindings.swipeThreshold}
+            onChange={(e) => onChange({ ...bindings, swipeThreshold: Number(e.target.value) })}
+            className="flex-1"
+          />
+          <span className="w-10 text-right">{bindings.swipeThreshold}px</span>
+        </label>
+
+        <div className="mt-6 flex justify-center gap-3">
+          <button
+            onClick={() => onChange(structuredClone(DEFAULT_BINDINGS))}
+            className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+            style={{ color: '#ff2a6d', border: '1px solid rgba(255, 42, 109, 0.5)', borderRadius: '4px' }}
+          >
+            RESET DEFAULTS
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+            style={{
+              background: 'linear-gradient(135deg, #05d9e8 0%, #d300c5 100%)',
+              color: '#0a0a0f',
+              borderRadius: '4px'
+            }}
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
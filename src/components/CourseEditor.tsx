@@ -0,0 +1,514 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react'
+import { MAX_LANES, MIN_LANES, TICK_RATE } from '../game/constants'
+import {
+  COURSE_LIMITS,
+  courseLead,
+  createCourse,
+  exportCourse,
+  normalizeCourse,
+  parseCourse,
+  type Course,
+  type CourseObstacle
+} from '../game/course'
+import { OBSTACLE_TYPES, type ObstacleType } from '../game/types'
+import type { CourseLibrary } from '../storage/courses'
+
+// Timeline marks, shaped roughly like the obstacles
+const OBSTACLE_SYMBOLS: Record<ObstacleType, string> = {
+  crystal: '◆',
+  spike: '▼',
+  ring: '◯',
+  barrier: '▮',
+  laser: '≡'
+}
+
+// Timeline scale in pixels per meter, and how finely obstacles snap in meters
+const PIXELS_PER_METER = 8
+const SNAP = 0.5
+const LANE_HEIGHT = 44
+const RULER_HEIGHT = 24
+// Meters between ruler ticks, and between labelled ticks
+const RULER_STEP = 10
+const RULER_LABEL_STEP = 50
+// Pixels of track shown behind the playhead when the editor opens
+const PLAYHEAD_MARGIN = 120
+
+function snap(value: number, step: number) {
+  return Math.round(value / step) * step
+}
+
+function outlined(color: string): React.CSSProperties {
+  return { color, border: `1px solid ${color}80`, borderRadius: '4px' }
+}
+
+function fileName(course: Course) {
+  return `${course.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'course'}.json`
+}
+
+// Course editor: a timeline of the track with one row per lane, where obstacles are
+// placed by clicking, moved by dragging and deleted with the Delete key. Clicking the
+// ruler sets where test-play starts; every edit is saved as it is made.
+export default function CourseEditor({
+  library,
+  initialCourseId,
+  initialPlayhead,
+  colors,
+  onChange,
+  onPlay,
+  onClose
+}: {
+  library: CourseLibrary
+  initialCourseId: string | null
+  initialPlayhead: number
+  colors: Record<ObstacleType, string>
+  onChange: (courses: Course[]) => void
+  onPlay: (course: Course, from: number) => void
+  onClose: () => void
+}) {
+  const { courses, bestScores } = library
+  const [courseId, setCourseId] = useState(() =>
+    courses.some(course => course.id === initialCourseId) ? initialCourseId : courses[0]?.id ?? null
+  )
+  // An edit in progress, such as a drag, which is saved once it is done
+  const [draft, setDraft] = useState<Course | null>(null)
+  const course = draft ?? courses.find(other => other.id === courseId) ?? null
+  const [selected, setSelected] = useState<CourseObstacle | null>(null)
+  const [tool, setTool] = useState<ObstacleType>('crystal')
+  const [playhead, setPlayhead] = useState(initialPlayhead)
+  const [message, setMessage] = useState('')
+  // Typed numbers are only applied once finished, so partial values don't clip the course
+  const [lengthText, setLengthText] = useState<string | null>(null)
+  const [distanceText, setDistanceText] = useState<string | null>(null)
+
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const trackRef = useRef<HTMLDivElement>(null)
+  const fileRef = useRef<HTMLInputElement>(null)
+  const dragging = useRef<CourseObstacle | null>(null)
+
+  const save = (next: Course) => {
+    const normalized = normalizeCourse(next)
+    setDraft(null)
+    onChange(courses.map(other => (other.id === normalized.id ? normalized : other)))
+  }
+
+  const select = (id: string | null) => {
+    setCourseId(id)
+    setSelected(null)
+    setPlayhead(0)
+    setMessage('')
+  }
+
+  const addCourse = (added: Course) => {
+    onChange([...courses, added])
+    select(added.id)
+  }
+
+  const deleteCourse = () => {
+    if (!course || !window.confirm(`Delete ${course.name}?`)) return
+    const remaining = courses.filter(other => other.id !== course.id)
+    onChange(remaining)
+    select(remaining[0]?.id ?? null)
+  }
+
+  const removeSelected = () => {
+    if (!course || !selected) return
+    save({ ...course, obstacles: course.obstacles.filter(obs => obs !== selected) })
+    setSelected(null)
+  }
+
+  const replaceSelected = (changes: Partial<CourseObstacle>) => {
+    if (!course || !selected) return
+    const moved = { ...selected, ...changes }
+    save({ ...course, obstacles: course.obstacles.map(obs => (obs === selected ? moved : obs)) })
+    setSelected(moved)
+  }
+
+  // Delete removes the selected obstacle, unless a field is being typed in
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
+      if (e.code === 'Delete' || e.code === 'Backspace') {
+        e.preventDefault()
+        removeSelected()
+      }
+      if (e.code === 'Escape') setSelected(null)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  // Open with the playhead in view
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollLeft = playhead * PIXELS_PER_METER - PLAYHEAD_MARGIN
+  }, [courseId])
+
+  // Track position under the pointer. The track element scrolls with its content, so its
+  // bounds already account for scrolling.
+  const pointerAt = (e: PointerEvent, laneCount: number) => {
+    const bounds = trackRef.current!.getBoundingClientRect()
+    const lane = Math.floor((e.clientY - bounds.top - RULER_HEIGHT) / LANE_HEIGHT)
+    return {
+      distance: Math.max(0, snap((e.clientX - bounds.left) / PIXELS_PER_METER, SNAP)),
+      lane: Math.min(laneCount - 1, Math.max(0, lane))
+    }
+  }
+
+  const startDrag = (e: PointerEvent, working: Course, obstacle: CourseObstacle) => {
+    e.stopPropagation()
+    trackRef.current!.setPointerCapture(e.pointerId)
+    dragging.current = obstacle
+    setDraft(working)
+    setSelected(obstacle)
+  }
+
+  // Where an obstacle dragged to the pointer lands, kept out of the course's lead
+  const placeAt = (e: PointerEvent, working: Course) => {
+    const { distance, lane } = pointerAt(e, working.laneCount)
+    return { distance: Math.max(Math.ceil(courseLead(working) / SNAP) * SNAP, distance), lane }
+  }
+
+  // Clicking an empty spot places an obstacle there, already picked up so it can be dragged
+  const handleLanesDown = (e: PointerEvent) => {
+    if (!course) return
+    const placed: CourseObstacle = { ...placeAt(e, course), type: tool }
+    startDrag(e, { ...course, obstacles: [...course.obstacles, placed] }, placed)
+  }
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const obstacle = dragging.current
+    if (!draft || !obstacle) return
+    const moved = { ...obstacle, ...placeAt(e, draft) }
+    if (moved.distance === obstacle.distance && moved.lane === obstacle.lane) return
+    dragging.current = moved
+    setDraft({ ...draft, obstacles: draft.obstacles.map(obs => (obs === obstacle ? moved : obs)) })
+    setSelected(moved)
+  }
+
+  const handlePointerUp = () => {
+    if (!draft) return
+    dragging.current = null
+    save(draft)
+  }
+
+  const exportFile = () => {
+    if (!course) return
+    const url = URL.createObjectURL(new Blob([exportCourse(course)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName(course)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const imported = parseCourse(await file.text())
+      addCourse(imported)
+      setMessage(`IMPORTED ${imported.name}`)
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Invalid course')
+    }
+  }
+
+  const commitLength = () => {
+    if (course && lengthText !== null && Number.isFinite(Number(lengthText))) {
+      save({ ...course, length: Number(lengthText) })
+    }
+    setLengthText(null)
+  }
+
+  const commitDistance = () => {
+    if (distanceText !== null && Number.isFinite(Number(distanceText))) {
+      replaceSelected({ distance: Math.max(0, snap(Number(distanceText), SNAP)) })
+    }
+    setDistanceText(null)
+  }
+
+  const selectedObstacle = course && selected && course.obstacles.includes(selected) ? selected : null
+  const best = course ? bestScores[course.id] : undefined
+
+  return (
+    <div
+      className="absolute inset-0 flex flex-col bg-[#050508] pointer-events-auto text-xs md:text-sm"
+      style={{ fontFamily: '"Orbitron", sans-serif', color: '#05d9e8' }}
+    >
+      {/* Course picker and file actions */}
+      <div className="flex flex-wrap items-center gap-2 p-4">
+        <h2
+          className="mr-4 text-xl md:text-2xl font-black tracking-wider"
+          style={{ textShadow: '0 0 30px rgba(5, 217, 232, 0.6)' }}
+        >
+          COURSES
+        </h2>
+        <select
+          value={courseId ?? ''}
+          onChange={(e) => select(e.target.value || null)}
+          className="px-2 py-1 bg-[#050508] outline-none"
+          style={outlined('#05d9e8')}
+        >
+          {courses.length === 0 && <option value="">NO COURSES YET</option>}
+          {courses.map(other => (
+            <option key={other.id} value={other.id}>{other.name}</option>
+          ))}
+        </select>
+        <button onClick={() => addCourse(createCourse())} className="px-3 py-1 font-bold tracking-wider hover:scale-105 transition-all duration-300" style={outlined('#05d9e8')}>
+          NEW
+        </button>
+        <button onClick={() => fileRef.current?.click()} className="px-3 py-1 font-bold tracking-wider hover:scale-105 transition-all duration-300" style={outlined('#05d9e8')}>
+          IMPORT
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            importFile(e.target.files?.[0])
+            e.target.value = ''
+          }}
+        />
+        {course && (
+          <>
+            <button onClick={exportFile} className="px-3 py-1 font-bold tracking-wider hover:scale-105 transition-all duration-300" style={outlined('#05d9e8')}>
+              EXPORT
+            </button>
+            <button onClick={deleteCourse} className="px-3 py-1 font-bold tracking-wider hover:scale-105 transition-all duration-300" style={outlined('#ff2a6d')}>
+              DELETE
+            </button>
+          </>
+        )}
+        <button
+          onClick={onClose}
+          className="ml-auto px-4 py-1 font-bold tracking-wider hover:scale-105 transition-all duration-300"
+          style={{ background: 'linear-gradient(135deg, #05d9e8 0%, #d300c5 100%)', color: '#0a0a0f', borderRadius: '4px' }}
+        >
+          DONE
+        </button>
+      </div>
+      {message && <p className="px-4 pb-2" style={{ color: '#ff2a6d' }}>{message}</p>}
+
+      {course ? (
+        <>
+          {/* Course settings */}
+          <div className="flex flex-wrap items-center gap-4 px-4 pb-3">
+            <label className="flex items-center gap-2">
+              NAME
+              <input
+                value={course.name}
+                maxLength={COURSE_LIMITS.nameLength}
+                onChange={(e) => save({ ...course, name: e.target.value.toUpperCase() })}
+                className="w-48 px-2 py-1 bg-transparent outline-none"
+                style={outlined('#05d9e8')}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              LANES
+              <select
+                value={course.laneCount}
+                onChange={(e) => save({ ...course, laneCount: Number(e.target.value) })}
+                className="px-2 py-1 bg-[#050508] outline-none"
+                style={outlined('#05d9e8')}
+              >
+                {Array.from({ length: MAX_LANES - MIN_LANES + 1 }, (_, i) => MIN_LANES + i).map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              SPEED
+              <input
+                type="range"
+                min={COURSE_LIMITS.minSpeed}
+                max={COURSE_LIMITS.maxSpeed}
+                step={0.01}
+                value={course.speed}
+                onChange={(e) => save({ ...course, speed: Number(e.target.value) })}
+              />
+              <span className="w-16">{Math.round(course.speed * TICK_RATE)}m/s</span>
+            </label>
+            <label className="flex items-center gap-2">
+              LENGTH
+              <input
+                type="number"
+                min={COURSE_LIMITS.minLength}
+                max={COURSE_LIMITS.maxLength}
+                value={lengthText ?? course.length}
+                onChange={(e) => setLengthText(e.target.value)}
+                onBlur={commitLength}
+                onKeyDown={(e) => e.key === 'Enter' && commitLength()}
+                className="w-20 px-2 py-1 bg-transparent outline-none"
+                style={outlined('#05d9e8')}
+              />
+              m
+            </label>
+            <span className="opacity-70">
+              {course.obstacles.length} OBSTACLES
+              {best !== undefined && ` · BEST ${best.toString().padStart(6, '0')}`}
+            </span>
+          </div>
+
+          {/* Obstacle palette and the selected obstacle */}
+          <div className="flex flex-wrap items-center gap-2 px-4 pb-3">
+            <span className="mr-1 opacity-70">PLACE</span>
+            {OBSTACLE_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => (selectedObstacle ? replaceSelected({ type }) : setTool(type))}
+                className="px-3 py-1 font-bold tracking-wider uppercase transition-all duration-300 hover:scale-105"
+                style={{
+                  ...outlined(colors[type]),
+                  background: (selectedObstacle ? selectedObstacle.type : tool) === type ? `${colors[type]}33` : undefined
+                }}
+              >
+                {OBSTACLE_SYMBOLS[type]} {type}
+              </button>
+            ))}
+            {selectedObstacle && (
+              <>
+                <label className="ml-4 flex items-center gap-2">
+                  AT
+                  <input
+                    type="number"
+                    min={0}
+                    step={SNAP}
+                    value={distanceText ?? selectedObstacle.distance}
+                    onChange={(e) => setDistanceText(e.target.value)}
+                    onBlur={commitDistance}
+                    onKeyDown={(e) => e.key === 'Enter' && commitDistance()}
+                    className="w-20 px-2 py-1 bg-transparent outline-none"
+                    style={outlined('#05d9e8')}
+                  />
+                  m
+                </label>
+                <button onClick={removeSelected} className="px-3 py-1 font-bold tracking-wider hover:scale-105 transition-all duration-300" style={outlined('#ff2a6d')}>
+                  REMOVE
+                </button>
+              </>
+            )}
+          </div>
+
+          {/* Timeline: the ruler sets the playhead, lanes run left to right toward the finish */}
+          <div ref={scrollRef} className="mx-4 overflow-x-auto overflow-y-hidden" style={{ border: '1px solid rgba(5, 217, 232, 0.3)' }}>
+            <div
+              ref={trackRef}
+              className="relative select-none"
+              style={{
+                width: course.length * PIXELS_PER_METER + PLAYHEAD_MARGIN,
+                height: RULER_HEIGHT + course.laneCount * LANE_HEIGHT,
+                touchAction: draft ? 'none' : 'pan-x'
+              }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <div
+                className="absolute left-0 right-0 top-0 cursor-pointer"
+                style={{ height: RULER_HEIGHT, borderBottom: '1px solid rgba(5, 217, 232, 0.3)' }}
+                onPointerDown={(e) => setPlayhead(Math.min(course.length - 1, Math.round(pointerAt(e, course.laneCount).distance)))}
+              >
+                {Array.from({ length: Math.floor(course.length / RULER_STEP) + 1 }, (_, i) => i * RULER_STEP).map(meters => (
+                  <div
+                    key={meters}
+                    className="absolute bottom-0"
+                    style={{
+                      left: meters * PIXELS_PER_METER,
+                      height: meters % RULER_LABEL_STEP === 0 ? RULER_HEIGHT : RULER_HEIGHT / 3,
+                      borderLeft: '1px solid rgba(5, 217, 232, 0.4)'
+                    }}
+                  >
+                    {meters % RULER_LABEL_STEP === 0 && <span className="pl-1 text-[10px] opacity-60">{meters}</span>}
+                  </div>
+                ))}
+              </div>
+
+              <div
+                className="absolute left-0 right-0 cursor-crosshair"
+                style={{ top: RULER_HEIGHT, bottom: 0 }}
+                onPointerDown={handleLanesDown}
+              >
+                {Array.from({ length: course.laneCount }, (_, lane) => (
+                  <div
+                    key={lane}
+                    className="absolute left-0 right-0"
+                    style={{
+                      top: lane * LANE_HEIGHT,
+                      height: LANE_HEIGHT,
+                      background: lane % 2 === 0 ? 'rgba(5, 217, 232, 0.04)' : 'transparent'
+                    }}
+                  />
+                ))}
+                {/* Lead-in kept clear so the player can react to the first obstacle */}
+                <div
+                  className="absolute top-0 bottom-0 left-0 pointer-events-none"
+                  style={{
+                    width: courseLead(course) * PIXELS_PER_METER,
+                    background: 'repeating-linear-gradient(135deg, rgba(255, 42, 109, 0.12) 0 6px, transparent 6px 12px)'
+                  }}
+                />
+              </div>
+
+              {course.obstacles.map((obs, index) => (
+                <button
+                  key={index}
+                  aria-label={`${obs.type} in lane ${obs.lane + 1} at ${obs.distance}m`}
+                  onPointerDown={(e) => startDrag(e, course, obs)}
+                  className="absolute flex items-center justify-center font-bold cursor-grab"
+                  style={{
+                    left: obs.distance * PIXELS_PER_METER - LANE_HEIGHT * 0.3,
+                    top: RULER_HEIGHT + obs.lane * LANE_HEIGHT + LANE_HEIGHT * 0.2,
+                    width: LANE_HEIGHT * 0.6,
+                    height: LANE_HEIGHT * 0.6,
+                    color: colors[obs.type],
+                    border: `${obs === selectedObstacle ? 2 : 1}px solid ${obs === selectedObstacle ? '#ffffff' : colors[obs.type]}`,
+                    background: `${colors[obs.type]}33`,
+                    borderRadius: '4px',
+                    touchAction: 'none'
+                  }}
+                >
+                  {OBSTACLE_SYMBOLS[obs.type]}
+                </button>
+              ))}
+
+              {/* Playhead and finish line */}
+              <div
+                className="absolute top-0 bottom-0 pointer-events-none"
+                style={{ left: playhead * PIXELS_PER_METER, borderLeft: '2px solid #ffdd00' }}
+              />
+              <div
+                className="absolute top-0 bottom-0 pointer-events-none"
+                style={{
+                  left: course.length * PIXELS_PER_METER,
+                  width: 8,
+                  background: 'repeating-linear-gradient(180deg, #ffffff 0 8px, #0a0a0f 8px 16px)'
+                }}
+              />
+            </div>
+          </div>
+          <p className="px-4 pt-2 opacity-60">
+            CLICK A LANE TO PLACE · DRAG TO MOVE · DELETE TO REMOVE · CLICK THE RULER TO SET THE TEST START
+          </p>
+
+          <div className="mt-4 flex justify-center gap-3">
+            <button
+              onClick={() => onPlay(course, playhead)}
+              className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+              style={outlined('#ffdd00')}
+            >
+              TEST FROM {playhead}m
+            </button>
+            <button
+              onClick={() => onPlay(course, 0)}
+              className="px-6 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+              style={{ background: 'linear-gradient(135deg, #ff2a6d 0%, #d300c5 100%)', color: '#ffffff', borderRadius: '4px' }}
+            >
+              PLAY COURSE
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="px-4 opacity-70">Create a course or import one to start building.</p>
+      )}
+    </div>
+  )
+}
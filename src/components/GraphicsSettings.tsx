@@ -0,0 +1,141 @@
+import { CAMERA_MODES, type CameraMode } from '../scene/camera'
+import {
+  DEFAULT_GRAPHICS_SETTINGS,
+  QUALITY_LEVELS,
+  type GraphicsSettings as GraphicsSettingsValue,
+  type QualityLevel
+} from '../scene/quality'
+
+const QUALITY_HINTS: Record<QualityLevel | 'auto', string> = {
+  auto: 'ADJUSTS TO KEEP THE FRAME RATE UP',
+  low: 'NO SHADOWS, TRAIL OR DECORATIONS',
+  medium: 'LIGHT SHADOWS AND EFFECTS',
+  high: 'FULL EFFECTS',
+  ultra: 'SHARPEST SHADOWS AND MOST DETAIL'
+}
+
+const CAMERA_LABELS: Record<CameraMode, string> = {
+  chase: 'CHASE',
+  topDown: 'TOP-DOWN',
+  firstPerson: 'FIRST PERSON'
+}
+
+// Settings screen for rendering quality and the performance overlay
+export default function GraphicsSettings({
+  settings,
+  activeLevel,
+  debugCamera = false,
+  onChange,
+  onDebugCameraChange,
+  onClose
+}: {
+  settings: GraphicsSettingsValue
+  // The preset in use, which auto mode picks for itself
+  activeLevel: QualityLevel
+  debugCamera?: boolean
+  onChange: (settings: GraphicsSettingsValue) => void
+  // Only passed in development builds, where the free camera toggle is shown
+  onDebugCameraChange?: (enabled: boolean) => void
+  onClose: () => void
+}) {
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/70 pointer-events-auto">
+      <div
+        className="w-full max-w-md p-6 text-xs md:text-sm"
+        style={{ fontFamily: '"Orbitron", sans-serif', color: '#05d9e8' }}
+      >
+        <h2
+          className="text-2xl md:text-3xl font-black tracking-wider mb-6 text-center"
+          style={{ color: '#05d9e8', textShadow: '0 0 30px rgba(5, 217, 232, 0.6)' }}
+        >
+          GRAPHICS
+        </h2>
+
+        {(['auto', ...QUALITY_LEVELS] as const).map(quality => (
+          <label key={quality} className="mt-2 flex items-center gap-3 cursor-pointer">
+            <input
+              type="radio"
+              name="quality"
+              checked={settings.quality === quality}
+              onChange={() => onChange({ ...settings, quality })}
+            />
+            <span className="w-24 uppercase">{quality}</span>
+            <span className="flex-1 opacity-60">
+              {quality === 'auto' && settings.quality === 'auto'
+                ? `NOW ${activeLevel.toUpperCase()}`
+                : QUALITY_HINTS[quality]}
+            </span>
+          </label>
+        ))}
+
+        <div className="mt-4 flex items-center gap-3">
+          <span className="w-24">CAMERA</span>
+          {CAMERA_MODES.map(camera => (
+            <label key={camera} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="camera"
+                checked={settings.camera === camera}
+                onChange={() => onChange({ ...settings, camera })}
+              />
+              {CAMERA_LABELS[camera]}
+            </label>
+          ))}
+        </div>
+
+        <label className="mt-4 flex items-center gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.showPerf}
+            onChange={(e) => onChange({ ...settings, showPerf: e.target.checked })}
+          />
+          <span className="w-40">PERF OVERLAY</span>
+          <span className="flex-1 opacity-60">FPS, DRAW CALLS AND TRIANGLES</span>
+        </label>
+
+        <label className="mt-2 flex items-center gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.showHitboxes}
+            onChange={(e) => onChange({ ...settings, showHitboxes: e.target.checked })}
+          />
+          <span className="w-40">HITBOXES</span>
+          <span className="flex-1 opacity-60">DEBUG OUTLINES OF WHAT COLLIDES</span>
+        </label>
+
+        {onDebugCameraChange && (
+          <label className="mt-2 flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={debugCamera}
+              onChange={(e) => onDebugCameraChange(e.target.checked)}
+            />
+            <span className="w-40">FREE CAMERA</span>
+            <span className="flex-1 opacity-60">DEBUG ORBIT, DRAG TO LOOK AROUND</span>
+          </label>
+        )}
+
+        <div className="mt-6 flex justify-center gap-3">
+          <button
+            onClick={() => onChange({ ...DEFAULT_GRAPHICS_SETTINGS })}
+            className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+            style={{ color: '#ff2a6d', border: '1px solid rgba(255, 42, 109, 0.5)', borderRadius: '4px' }}
+          >
+            RESET DEFAULTS
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+            style={{
+              background: 'linear-gradient(135deg, #05d9e8 0%, #d300c5 100%)',
+              color: '#0a0a0f',
+              borderRadius: '4px'
+            }}
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
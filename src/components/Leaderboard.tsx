@@ -0,0 +1,47 @@
+import type { LeaderboardEntry } from '../storage/leaderboard'
+
+// Top runs table shown on the title screen
+export default function Leaderboard({
+  entries,
+  highlightRank
+}: {
+  entries: LeaderboardEntry[]
+  highlightRank?: number | null
+}) {
+  if (entries.length === 0) return null
+
+  return (
+    <div
+      className="mt-6 mx-auto w-full max-w-md text-xs md:text-sm"
+      style={{ fontFamily: '"Orbitron", sans-serif' }}
+    >
+      <div
+        className="mb-2 text-lg md:text-xl tracking-widest"
+        style={{ color: '#ffdd00', textShadow: '0 0 20px rgba(255, 221, 0, 0.5)' }}
+      >
+        LEADERBOARD
+      </div>
+      <table className="w-full" style={{ color: '#05d9e8' }}>
+        <tbody>
+          {entries.map((entry, index) => (
+            <tr
+              key={`${entry.date}-${index}`}
+              className="opacity-80"
+              style={index + 1 === highlightRank ? { color: '#ffdd00', opacity: 1 } : undefined}
+            >
+              <td className="pr-2 text-right">{index + 1}.</td>
+              <td className="pr-3 text-left tracking-widest">{entry.initials || '---'}</td>
+              <td className="pr-3 text-right" title={entry.legacy ? 'Scored under the old rules' : undefined}>
+                {entry.legacy && <span className="mr-1 opacity-50">v1</span>}
+                {entry.score.toString().padStart(6, '0')}
+              </td>
+              <td className="pr-3 text-right opacity-70">{Math.floor(entry.distance)}m</td>
+              <td className="pr-3 text-right opacity-70">{new Date(entry.date).toLocaleDateString()}</td>
+              <td className="text-left opacity-70 uppercase">{entry.killedBy ?? ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
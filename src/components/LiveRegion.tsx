@@ -0,0 +1,15 @@
+// Announcement for screen readers. Each message carries an id so repeating the
+// same text is still read out.
+export interface Announcement {
+  id: number
+  text: string
+}
+
+// Visually hidden live region; polite so announcements never cut off the player's reader
+export default function LiveRegion({ announcement }: { announcement: Announcement | null }) {
+  return (
+    <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+      {announcement && <span key={announcement.id}>{announcement.text}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import type { PerfStats } from '../scene/performance'
+import type { QualityLevel } from '../scene/quality'
+
+// Corner readout of renderer performance
+export default function PerfOverlay({ stats, level }: { stats: PerfStats | null, level: QualityLevel }) {
+  const rows: [string, string][] = [
+    ['FPS', stats ? String(stats.fps) : '--'],
+    ['DRAWS', stats ? String(stats.drawCalls) : '--'],
+    ['TRIS', stats ? stats.triangles.toLocaleString() : '--'],
+    ['QUALITY', level.toUpperCase()]
+  ]
+
+  return (
+    <div
+      className="absolute top-16 left-4 px-3 py-2 text-[10px] md:text-xs tracking-wider pointer-events-none"
+      style={{
+        fontFamily: '"Orbitron", sans-serif',
+        color: '#05d9e8',
+        background: 'rgba(10, 10, 15, 0.7)',
+        border: '1px solid rgba(5, 217, 232, 0.3)',
+        borderRadius: '4px'
+      }}
+    >
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span className="opacity-60">{label}</span>
+          <span style={{ color: label === 'FPS' && stats && stats.fps < 30 ? '#ff2a6d' : undefined }}>{value}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
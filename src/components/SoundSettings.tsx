@@ -0,0 +1,86 @@
+import { DEFAULT_AUDIO_SETTINGS, type AudioSettings } from '../audio/engine'
+
+const VOLUMES: { key: 'master' | 'music' | 'sfx', label: string }[] = [
+  { key: 'master', label: 'MASTER' },
+  { key: 'music', label: 'MUSIC' },
+  { key: 'sfx', label: 'EFFECTS' }
+]
+
+// Settings screen for volumes, mute and beat-synced spawning
+export default function SoundSettings({
+  settings,
+  onChange,
+  onClose
+}: {
+  settings: AudioSettings
+  onChange: (settings: AudioSettings) => void
+  onClose: () => void
+}) {
+  const toggle = (key: 'muted' | 'beatSync', label: string, hint: string) => (
+    <label className="mt-3 flex items-center gap-3 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={settings[key]}
+        onChange={(e) => onChange({ ...settings, [key]: e.target.checked })}
+      />
+      <span className="w-40">{label}</span>
+      <span className="flex-1 opacity-60">{hint}</span>
+    </label>
+  )
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/70 pointer-events-auto">
+      <div
+        className="w-full max-w-md p-6 text-xs md:text-sm"
+        style={{ fontFamily: '"Orbitron", sans-serif', color: '#05d9e8' }}
+      >
+        <h2
+          className="text-2xl md:text-3xl font-black tracking-wider mb-6 text-center"
+          style={{ color: '#05d9e8', textShadow: '0 0 30px rgba(5, 217, 232, 0.6)' }}
+        >
+          SOUND
+        </h2>
+
+        {VOLUMES.map(({ key, label }) => (
+          <label key={key} className="mt-2 flex items-center gap-3">
+            <span className="w-40">{label}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings[key]}
+              onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="w-10 text-right">{Math.round(settings[key] * 100)}%</span>
+          </label>
+        ))}
+
+        {toggle('muted', 'MUTE', 'SILENCE ALL AUDIO')}
+        {toggle('beatSync', 'BEAT SYNC', 'OBSTACLES ARRIVE ON THE BEAT')}
+
+        <div className="mt-6 flex justify-center gap-3">
+          <button
+            onClick={() => onChange({ ...DEFAULT_AUDIO_SETTINGS })}
+            className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+            style={{ color: '#ff2a6d', border: '1px solid rgba(255, 42, 109, 0.5)', borderRadius: '4px' }}
+          >
+            RESET DEFAULTS
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+            style={{
+              background: 'linear-gradient(135deg, #05d9e8 0%, #d300c5 100%)',
+              color: '#0a0a0f',
+              borderRadius: '4px'
+            }}
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
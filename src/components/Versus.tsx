@@ -0,0 +1,343 @@
+import { Suspense, useCallback, useEffect, useRef, useState, type MutableRefObject } from 'react'
+import { Canvas } from '@react-three/fiber'
+import { HUD_UPDATE_TICKS, TICK_RATE } from '../game/constants'
+import { BIOMES, sampleBiome } from '../game/biomes'
+import { drainEvents, getSongPosition, queueInput, type Simulation } from '../game/simulation'
+import type { InputAction, ObstacleType } from '../game/types'
+import {
+  advanceVersus,
+  createVersusMatch,
+  getVersusResults,
+  VERSUS_PLAYERS,
+  type VersusMatch
+} from '../game/versus'
+import type { AudioEngine } from '../audio/engine'
+import { actionsForKey, type ControlAction, type InputBindings } from '../input/bindings'
+import { connectedGamepads, useGamepad } from '../input/useGamepad'
+import { CONTROL_INPUTS, VERSUS_KEYS, VERSUS_KEY_HINTS } from '../input/versus'
+import GameScene from '../scene/GameScene'
+import type { QualityPreset } from '../scene/quality'
+
+const PLAYER_COLORS = ['#05d9e8', '#ff2a6d']
+
+interface PlayerHud {
+  score: number
+  distance: number
+}
+
+function readHud(match: VersusMatch): PlayerHud[] {
+  return match.players.map(sim => ({ score: sim.score, distance: sim.distance }))
+}
+
+// Local two-player versus: a viewport per player on the same track, a countdown
+// before each round, and a results screen once someone crashes
+export default function Versus({
+  audio,
+  bindings,
+  quality,
+  palette,
+  shapeCues,
+  reducedMotion,
+  onAnnounce,
+  onExit
+}: {
+  audio: AudioEngine
+  bindings: InputBindings
+  quality: QualityPreset
+  palette: Record<ObstacleType, string> | null
+  shapeCues: boolean
+  reducedMotion: boolean
+  onAnnounce: (text: string) => void
+  onExit: () => void
+}) {
+  const matchRef = useRef<VersusMatch>(null!)
+  matchRef.current ??= createVersusMatch()
+  // Each viewport draws from its own ref, pointed at that player's simulation
+  const playerRefs = useRef<MutableRefObject<Simulation>[]>(null!)
+  playerRefs.current ??= matchRef.current.players.map(sim => ({ current: sim }))
+  const noGhost = useRef<Simulation | null>(null)
+
+  const [phase, setPhase] = useState<'countdown' | 'playing' | 'paused' | 'results'>('countdown')
+  const [countdown, setCountdown] = useState(3)
+  const [hud, setHud] = useState(() => readHud(matchRef.current))
+  const [wins, setWins] = useState(() => Array<number>(VERSUS_PLAYERS).fill(0))
+
+  const rematch = useCallback(() => {
+    audio.unlock()
+    matchRef.current = createVersusMatch()
+    matchRef.current.players.forEach((sim, i) => { playerRefs.current[i].current = sim })
+    setHud(readHud(matchRef.current))
+    setCountdown(3)
+    setPhase('countdown')
+  }, [audio])
+
+  // Resuming counts down again rather than dropping both players straight back in
+  const resume = useCallback(() => {
+    setCountdown(3)
+    setPhase('countdown')
+  }, [])
+
+  // Pause when the window loses focus or the tab is hidden
+  useEffect(() => {
+    const pause = () => setPhase(prev => (prev === 'playing' ? 'paused' : prev))
+    const handleVisibility = () => {
+      if (document.hidden) pause()
+    }
+    document.addEventListener('visibilitychange', handleVisibility)
+    window.addEventListener('blur', pause)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility)
+      window.removeEventListener('blur', pause)
+    }
+  }, [])
+
+  // 3-2-1 so both players have their hands on the controls
+  useEffect(() => {
+    if (phase !== 'countdown') return
+    if (countdown === 0) {
+      setPhase('playing')
+      onAnnounce('Go')
+      return
+    }
+    onAnnounce(String(countdown))
+    const timeout = setTimeout(() => setCountdown(countdown - 1), 1000)
+    return () => clearTimeout(timeout)
+  }, [phase, countdown, onAnnounce])
+
+  // Match loop, as in single player but stepping both simulations together
+  useEffect(() => {
+    if (phase !== 'playing') return
+
+    const match = matchRef.current
+    let lastTime = performance.now()
+    let lastPublished = match.players[0].tick
+    let frame = 0
+
+    audio.startMusic(() => getSongPosition(match.players[0]))
+
+    const loop = (currentTime: number) => {
+      advanceVersus(match, currentTime - lastTime)
+      lastTime = currentTime
+
+      for (const sim of match.players) {
+        for (const event of drainEvents(sim)) audio.playEvent(event)
+      }
+
+      const tick = Math.max(...match.players.map(sim => sim.tick))
+      if (tick - lastPublished >= HUD_UPDATE_TICKS || match.result !== null) {
+        lastPublished = tick
+        setHud(readHud(match))
+      }
+
+      if (match.result !== null) {
+        const { result } = match
+        if (result !== 'draw') {
+          setWins(prev => prev.map((count, i) => (i === result ? count + 1 : count)))
+        }
+        onAnnounce(result === 'draw' ? 'Draw' : `Player ${result + 1} wins`)
+        setPhase('results')
+        return
+      }
+      frame = requestAnimationFrame(loop)
+    }
+
+    frame = requestAnimationFrame(loop)
+    return () => {
+      audio.stopMusic()
+      cancelAnimationFrame(frame)
+    }
+  }, [phase, audio, onAnnounce])
+
+  // Pause, resume and rematch are shared; steering goes to whichever player owns the control
+  const handleMatchAction = useCallback((action: ControlAction) => {
+    if (action === 'pause') {
+      if (phase === 'playing') setPhase('paused')
+      else if (phase === 'paused') resume()
+    } else if (action === 'start' && phase === 'results') {
+      rematch()
+    }
+  }, [phase, resume, rematch])
+
+  const steer = useCallback((player: number, action: InputAction) => {
+    if (phase !== 'playing') return
+    queueInput(matchRef.current.players[player], action)
+  }, [phase])
+
+  // Keyboard controls
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = VERSUS_KEYS[e.code]
+      if (key) {
+        e.preventDefault()
+        steer(key.player, key.action)
+        return
+      }
+      actionsForKey(bindings, e.code).forEach(handleMatchAction)
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [bindings, steer, handleMatchAction])
+
+  // Gamepad controls: the first connected pad is player 1, the second player 2
+  useGamepad({
+    bindings,
+    enabled: true,
+    onAction: (action, padIndex) => {
+      const player = connectedGamepads().findIndex(pad => pad.index === padIndex)
+      const input = CONTROL_INPUTS[action]
+      if (input && player >= 0 && player < VERSUS_PLAYERS) steer(player, input)
+      else handleMatchAction(action)
+    }
+  })
+
+  const results = phase === 'results' ? getVersusResults(matchRef.current) : null
+  const { result } = matchRef.current
+
+  return (
+    <div className="absolute inset-0 z-20 flex bg-[#050508]">
+      {/* One viewport per player */}
+      {playerRefs.current.map((simulationRef, player) => {
+        const { look } = sampleBiome(BIOMES, hud[player].distance)
+        const crashed = phase === 'results' && simulationRef.current.gameOver
+        return (
+          <div
+            key={player}
+            className="relative flex-1 h-full overflow-hidden"
+            style={{ borderLeft: player > 0 ? `2px solid ${PLAYER_COLORS[player]}` : undefined }}
+          >
+            <Canvas
+              shadows
+              dpr={quality.dpr}
+              camera={{ position: [0, 4, 6], fov: 75 }}
+              style={{ background: `linear-gradient(180deg, ${look.sky[0]} 0%, ${look.sky[1]} 50%, ${look.sky[2]} 100%)` }}
+            >
+              <Suspense fallback={null}>
+                <GameScene
+                  simulationRef={simulationRef}
+                  ghostRef={noGhost}
+                  quality={quality}
+                  palette={palette}
+                  shapeCues={shapeCues}
+                  reducedMotion={reducedMotion}
+                />
+              </Suspense>
+            </Canvas>
+
+            <div
+              className="absolute top-4 left-0 right-0 text-center text-sm md:text-base tracking-widest pointer-events-none"
+              style={{ fontFamily: '"Orbitron", sans-serif', color: PLAYER_COLORS[player] }}
+            >
+              P{player + 1} · {VERSUS_KEY_HINTS[player]} · {hud[player].distance.toFixed(0)}m
+            </div>
+
+            {crashed && (
+              <div
+                className="absolute top-1/3 left-0 right-0 text-center text-2xl md:text-4xl font-black tracking-widest pointer-events-none"
+                style={{ fontFamily: '"Orbitron", sans-serif', color: '#ff2a6d', textShadow: '0 0 30px rgba(255, 42, 109, 0.7)' }}
+              >
+                CRASHED
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {/* Countdown */}
+      {phase === 'countdown' && countdown > 0 && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div
+            className="text-7xl md:text-9xl font-black"
+            style={{ fontFamily: '"Orbitron", sans-serif', color: '#ffdd00', textShadow: '0 0 40px rgba(255, 221, 0, 0.7)' }}
+          >
+            {countdown}
+          </div>
+        </div>
+      )}
+
+      {/* Pause */}
+      {phase === 'paused' && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-black/60">
+          <h2
+            className="text-3xl md:text-5xl font-black tracking-wider"
+            style={{ fontFamily: '"Orbitron", sans-serif', color: '#05d9e8', textShadow: '0 0 30px rgba(5, 217, 232, 0.6)' }}
+          >
+            PAUSED
+          </h2>
+          <div className="flex gap-3">
+            <button
+              onClick={resume}
+              className="px-6 py-3 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+              style={{
+                fontFamily: '"Orbitron", sans-serif',
+                background: 'linear-gradient(135deg, #05d9e8 0%, #d300c5 100%)',
+                color: '#0a0a0f',
+                borderRadius: '4px'
+              }}
+            >
+              RESUME
+            </button>
+            <button
+              onClick={onExit}
+              className="px-6 py-3 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+              style={{ fontFamily: '"Orbitron", sans-serif', color: '#ff2a6d', border: '1px solid rgba(255, 42, 109, 0.5)', borderRadius: '4px' }}
+            >
+              QUIT
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Results */}
+      {results && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/60">
+          <h2
+            className="text-3xl md:text-5xl font-black tracking-wider mb-6"
+            style={{
+              fontFamily: '"Orbitron", sans-serif',
+              color: result === 'draw' || result === null ? '#ffdd00' : PLAYER_COLORS[result],
+              textShadow: '0 0 40px currentColor'
+            }}
+          >
+            {result === 'draw' || result === null ? 'DRAW' : `PLAYER ${result + 1} WINS`}
+          </h2>
+
+          <div className="flex gap-8 md:gap-16 mb-8" style={{ fontFamily: '"Orbitron", sans-serif' }}>
+            {results.map((stats, player) => (
+              <div key={player} className="text-center text-sm md:text-base" style={{ color: PLAYER_COLORS[player] }}>
+                <div className="text-lg md:text-xl font-bold mb-2">P{player + 1}</div>
+                <div>{(stats.ticks / TICK_RATE).toFixed(1)}s</div>
+                <div>{stats.distance.toFixed(0)}m</div>
+                <div>SCORE {stats.score.toString().padStart(6, '0')}</div>
+                {stats.killedBy && <div className="opacity-60">HIT {stats.killedBy.toUpperCase()}</div>}
+                <div className="mt-2 opacity-80">WINS {wins[player]}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={rematch}
+              className="px-6 py-3 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+              style={{
+                fontFamily: '"Orbitron", sans-serif',
+                background: 'linear-gradient(135deg, #05d9e8 0%, #d300c5 100%)',
+                color: '#0a0a0f',
+                borderRadius: '4px'
+              }}
+            >
+              REMATCH
+            </button>
+            <button
+              onClick={onExit}
+              className="px-6 py-3 font-bold tracking-wider transition-all duration-300 hover:scale-105"
+              style={{ fontFamily: '"Orbitron", sans-serif', color: '#ff2a6d', border: '1px solid rgba(255, 42, 109, 0.5)', borderRadius: '4px' }}
+            >
+              MENU
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
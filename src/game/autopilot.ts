@@ -0,0 +1,130 @@
+import { applyInput, hitReach, isColliding, playerStateKey, stepPlayer } from './physics'
+import { updateBehavior } from './behaviors'
+import { currentSpeed, queueInput, type Simulation } from './simulation'
+import type { InputAction, Obstacle, PlayerState } from './types'
+
+// A bot that plays with the same inputs as a person, for the attract mode behind the
+// title screen and for headless balance runs.
+//
+// Each decision searches the inputs it could make over the next `horizon` ticks against
+// where the obstacles will be, using the real movement rules and behaviors, and picks the
+// first input of a way through. It only gets to press something every `reactionTicks`
+// ticks, which stands in for reaction time, and it only trusts a way through that still
+// works with every obstacle up to `precisionTicks` ticks of travel nearer or further than
+// it really is, which stands in for imperfect timing. Layouts that need quicker hands or
+// finer timing catch it out, as do spawns and lane shifts it can't see coming.
+export interface AutopilotOptions {
+  reactionTicks: number
+  precisionTicks: number
+  horizon: number
+}
+
+export const DEFAULT_AUTOPILOT: AutopilotOptions = { reactionTicks: 12, precisionTicks: 3, horizon: 40 }
+
+export interface Autopilot {
+  options: AutopilotOptions
+  // Tick of the last decision
+  lastDecision: number
+}
+
+export function createAutopilot(options: AutopilotOptions = DEFAULT_AUTOPILOT): Autopilot {
+  return { options, lastDecision: -Infinity }
+}
+
+// In order of preference when several are as good: doing nothing keeps options open
+const CHOICES: (InputAction | null)[] = [null, 'moveLeft', 'moveRight', 'jump', 'slide']
+
+// A possible future for the player, and the index of the choice it started with
+interface Branch {
+  player: PlayerState
+  first: number
+}
+
+function preferred(branches: Iterable<Branch>) {
+  let first = CHOICES.length - 1
+  for (const branch of branches) first = Math.min(first, branch.first)
+  return CHOICES[first]
+}
+
+// Move copies of the obstacles on a tick, as the simulation would
+function advance(obstacles: Obstacle[], speed: number, tick: number) {
+  for (const obs of obstacles) {
+    obs.z += speed
+    updateBehavior(obs, tick)
+  }
+}
+
+// Whether leaving the controls alone gets through, which is most of the time
+function survivesIdle(sim: Simulation, ahead: Obstacle[], speed: number, horizon: number) {
+  const obstacles = ahead.map(obs => ({ ...obs, motion: { ...obs.motion } }))
+  const player = { ...sim.player }
+  for (let t = 0; t < horizon; t++) {
+    advance(obstacles, speed, sim.tick + t + 1)
+    const fromY = player.y
+    stepPlayer(player)
+    if (obstacles.some(obs => isColliding(player, obs, { travelled: speed, fromY }))) return false
+  }
+  return true
+}
+
+// Breadth-first over player states tick by tick, following the simulation's order within
+// a tick. Futures that meet in the same state are merged, keeping the preferred start.
+function search(sim: Simulation, ahead: Obstacle[], speed: number, { reactionTicks, horizon }: AutopilotOptions) {
+  const obstacles = ahead.map(obs => ({ ...obs, motion: { ...obs.motion } }))
+  let frontier = new Map<number, Branch>([[0, { player: { ...sim.player }, first: 0 }]])
+
+  for (let t = 0; t < horizon; t++) {
+    advance(obstacles, speed, sim.tick + t + 1)
+
+    const choices = t % reactionTicks === 0 ? CHOICES.length : 1
+    const next = new Map<number, Branch>()
+    for (const branch of frontier.values()) {
+      for (let choice = 0; choice < choices; choice++) {
+        const player = { ...branch.player }
+        const action = CHOICES[choice]
+        if (action) applyInput(player, action)
+        const fromY = player.y
+        stepPlayer(player)
+        if (obstacles.some(obs => isColliding(player, obs, { travelled: speed, fromY }))) continue
+
+        const first = t === 0 ? choice : branch.first
+        const key = playerStateKey(player)
+        const existing = next.get(key)
+        if (!existing || first < existing.first) next.set(key, { player, first })
+      }
+    }
+
+    // Nothing gets through: stall for as long as possible
+    if (next.size === 0) return preferred(frontier.values())
+    frontier = next
+  }
+  return preferred(frontier.values())
+}
+
+// The input to apply on the coming tick, or null to leave the controls alone
+export function chooseAction(pilot: Autopilot, sim: Simulation): InputAction | null {
+  const { options } = pilot
+  if (sim.tick - pilot.lastDecision < options.reactionTicks) return null
+  pilot.lastDecision = sim.tick
+
+  // Everything not yet passed that will reach the player within the horizon, at every
+  // whole tick of travel within the margin, so the sweeps cover the margin end to end
+  const speed = currentSpeed(sim)
+  const margin = options.precisionTicks
+  const ahead: Obstacle[] = []
+  for (const obs of sim.obstacles) {
+    const reach = hitReach(obs.type) + margin * speed
+    if (obs.z >= reach || obs.z + speed * options.horizon <= -reach) continue
+    for (let offset = -margin; offset <= margin; offset++) {
+      ahead.push({ ...obs, z: obs.z + offset * speed })
+    }
+  }
+  if (ahead.length === 0 || survivesIdle(sim, ahead, speed, options.horizon)) return null
+  return search(sim, ahead, speed, options)
+}
+
+// Queue the autopilot's input for the next tick. Fits advanceSimulation's `beforeStep`.
+export function driveAutopilot(pilot: Autopilot, sim: Simulation) {
+  const action = chooseAction(pilot, sim)
+  if (action) queueInput(sim, action)
+}
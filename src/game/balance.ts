@@ -0,0 +1,173 @@
+import { createAutopilot, driveAutopilot, DEFAULT_AUTOPILOT, type AutopilotOptions } from './autopilot'
+import { TICK_RATE } from './constants'
+import { DIFFICULTY_CURVE, type DifficultyCurve, type DifficultyTier } from './difficulty'
+import { createSimulation, drainEvents, stepSimulation } from './simulation'
+import type { ObstacleType } from './types'
+
+// Headless autopilot runs for tuning the difficulty curve from data rather than by feel.
+// Run with `npm run balance`; see scripts/balance.mjs for the options.
+
+export interface BalanceOptions {
+  runs: number
+  // Runs use consecutive seeds from here, so a report can be reproduced exactly
+  firstSeed: number
+  curve: DifficultyCurve
+  autopilot: AutopilotOptions
+  // Runs still going after this many ticks are stopped and counted as survivors
+  maxTicks: number
+}
+
+export const DEFAULT_BALANCE: BalanceOptions = {
+  runs: 1000,
+  firstSeed: 1,
+  curve: DIFFICULTY_CURVE,
+  autopilot: DEFAULT_AUTOPILOT,
+  maxTicks: 10 * 60 * TICK_RATE
+}
+
+// Survival times in seconds
+export interface Percentiles {
+  p10: number
+  p25: number
+  p50: number
+  p75: number
+  p90: number
+}
+
+export interface StageReport {
+  tier: DifficultyTier
+  // Distance the stage starts at
+  distance: number
+  // Runs that got this far, and how many of those crashed before the next stage
+  reached: number
+  crashed: number
+  crashesPerMinute: number
+  // Time from entering the stage to crashing, for the runs that crashed in it
+  survival: Percentiles | null
+  killedBy: Record<ObstacleType, number>
+}
+
+export interface BalanceReport {
+  options: BalanceOptions
+  // Time from the start to crashing, for the runs that crashed
+  survival: Percentiles | null
+  survivors: number
+  stages: StageReport[]
+}
+
+function stageAt(curve: DifficultyCurve, distance: number) {
+  let index = 0
+  while (index < curve.length - 1 && curve[index + 1].distance <= distance) {
+    index++
+  }
+  return index
+}
+
+// Nearest-rank percentiles of tick counts, in seconds
+function percentiles(ticks: number[]): Percentiles | null {
+  if (ticks.length === 0) return null
+  const sorted = [...ticks].sort((a, b) => a - b)
+  const at = (p: number) => sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)] / TICK_RATE
+  return { p10: at(0.1), p25: at(0.25), p50: at(0.5), p75: at(0.75), p90: at(0.9) }
+}
+
+function emptyKills(): Record<ObstacleType, number> {
+  return { crystal: 0, spike: 0, ring: 0, barrier: 0, laser: 0 }
+}
+
+export function runBalance(overrides: Partial<BalanceOptions> = {}): BalanceReport {
+  const options = { ...DEFAULT_BALANCE, ...overrides }
+  const { curve } = options
+  const stages = curve.map(() => ({ reached: 0, crashed: 0, ticks: 0, survival: [] as number[], killedBy: emptyKills() }))
+  const survival: number[] = []
+  let survivors = 0
+
+  for (let run = 0; run < options.runs; run++) {
+    const sim = createSimulation({ seed: options.firstSeed + run, curve })
+    const pilot = createAutopilot(options.autopilot)
+    let stage = 0
+    let enteredAt = 0
+    stages[0].reached++
+
+    while (!sim.gameOver && sim.tick < options.maxTicks) {
+      driveAutopilot(pilot, sim)
+      stepSimulation(sim)
+      drainEvents(sim)
+      const next = stageAt(curve, sim.distance)
+      // Stages can be skipped over in a single tick only if they are shorter than a tick's travel
+      while (stage < next) {
+        stages[stage].ticks += sim.tick - enteredAt
+        enteredAt = sim.tick
+        stage++
+        stages[stage].reached++
+      }
+    }
+
+    stages[stage].ticks += sim.tick - enteredAt
+    if (sim.gameOver) {
+      stages[stage].crashed++
+      stages[stage].survival.push(sim.tick - enteredAt)
+      if (sim.killedBy) stages[stage].killedBy[sim.killedBy]++
+      survival.push(sim.tick)
+    } else {
+      survivors++
+    }
+  }
+
+  return {
+    options,
+    survival: percentiles(survival),
+    survivors,
+    stages: stages.map((stage, index) => ({
+      tier: curve[index].tier,
+      distance: curve[index].distance,
+      reached: stage.reached,
+      crashed: stage.crashed,
+      crashesPerMinute: stage.ticks > 0 ? stage.crashed / (stage.ticks / TICK_RATE / 60) : 0,
+      survival: percentiles(stage.survival),
+      killedBy: stage.killedBy
+    }))
+  }
+}
+
+function formatPercentiles(survival: Percentiles | null) {
+  if (!survival) return '-'
+  return [survival.p10, survival.p25, survival.p50, survival.p75, survival.p90].map(s => s.toFixed(1)).join(' / ')
+}
+
+function formatKills(killedBy: Record<ObstacleType, number>) {
+  const kills = Object.entries(killedBy)
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1])
+  return kills.length > 0 ? kills.map(([type, count]) => `${type} ${count}`).join(', ') : '-'
+}
+
+// Plain text table for the terminal
+export function formatBalanceReport(report: BalanceReport) {
+  const { options } = report
+  const { reactionTicks, precisionTicks, horizon } = options.autopilot
+  const rows = report.stages.map((stage, index) => [
+    String(index),
+    stage.tier,
+    `${stage.distance}m`,
+    String(stage.reached),
+    String(stage.crashed),
+    stage.crashesPerMinute.toFixed(2),
+    formatPercentiles(stage.survival),
+    formatKills(stage.killedBy)
+  ])
+  const header = ['stage', 'tier', 'from', 'reached', 'crashed', 'crashes/min', 'survival s (p10/25/50/75/90)', 'killed by']
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)))
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()
+
+  return [
+    `${options.runs} runs from seed ${options.firstSeed}, capped at ${options.maxTicks / TICK_RATE}s`,
+    `autopilot: reaction ${reactionTicks} ticks, precision ${precisionTicks} ticks, horizon ${horizon} ticks`,
+    '',
+    line(header),
+    ...rows.map(line),
+    '',
+    `survival s (p10/25/50/75/90): ${formatPercentiles(report.survival)}`,
+    `survivors: ${report.survivors} of ${options.runs}`
+  ].join('\n')
+}
@@ -0,0 +1,138 @@
+import { TICK_RATE } from './constants'
+import { laneX } from './lanes'
+import type { Rng } from './rng'
+import type { Obstacle, ObstacleMotion, ObstacleType } from './types'
+
+// Obstacle behaviors. Each type has a hook that picks its settings when it spawns and one
+// that moves it every tick, writing the position that collision, cues and rendering all
+// read. New behaviors are added here; the simulation only ever calls the hooks.
+
+export interface SpawnContext {
+  random: Rng
+  // Chunk level at the spawn point
+  level: number
+  // Whether the chunk left the lane to chance, so every lane has been checked for a way through
+  anyLane: boolean
+}
+
+export interface ObstacleBehavior {
+  spawn: (obs: Obstacle, context: SpawnContext) => void
+  // Runs every tick once the obstacle has moved forward
+  update: (obs: Obstacle, tick: number) => void
+  // Heights the obstacle can be raised by as it reaches the player. The chunk validator
+  // checks all of them, since it can't know what phase the obstacle will arrive in.
+  passingLifts: number[]
+}
+
+// The warm-up keeps everything still
+const MOVING_LEVEL = 2
+
+// Crystals warn of a lane switch from the moment they spawn, then slide across between
+// these depths, far enough out that the new layout is one the player can still read
+const LANE_SWITCH = { chance: 0.5, startZ: -32, endZ: -22 }
+
+// Spikes fall from a height between these depths and land before they matter
+const SPIKE_DROP = { chance: 0.35, height: 8, startZ: -34, endZ: -24 }
+
+// Spikes bob up and down in step with the simulation; `rate` is in radians per second
+const SPIKE_BOB = { amplitude: 0.2, rate: 3 }
+
+// Rings rise and fall through a full cycle every `period` ticks
+const RING_SWAY = { chance: 0.5, amplitude: 0.35, period: 2 * TICK_RATE }
+
+// Laser gates are on for the first part of each cycle and flash a warning before switching back on
+const LASER_PULSE = { period: 2 * TICK_RATE, on: 0.5, warning: 0.2 }
+
+// How far through a stretch of track from startZ to endZ an obstacle is, from 0 to 1
+function progress(z: number, startZ: number, endZ: number) {
+  return Math.min(1, Math.max(0, (z - startZ) / (endZ - startZ)))
+}
+
+function cycle(tick: number, phase: number, period: number) {
+  return (phase + tick / period) % 1
+}
+
+function spikeBob(tick: number) {
+  return Math.sin((tick / TICK_RATE) * SPIKE_BOB.rate) * SPIKE_BOB.amplitude
+}
+
+const still: ObstacleBehavior = {
+  spawn: () => {},
+  update: () => {},
+  passingLifts: [0]
+}
+
+export const OBSTACLE_BEHAVIORS: Record<ObstacleType, ObstacleBehavior> = {
+  crystal: {
+    spawn: (obs, { random, level, anyLane }) => {
+      if (level < MOVING_LEVEL || !anyLane || obs.laneCount < 2 || random() >= LANE_SWITCH.chance) return
+      // Edge lanes can only switch inwards
+      const step = obs.lane === 0 ? 1 : obs.lane === obs.laneCount - 1 ? -1 : random() < 0.5 ? -1 : 1
+      obs.motion.toLane = obs.lane + step
+      obs.warning = laneX(obs.motion.toLane, obs.laneCount)
+    },
+    update: (obs) => {
+      const { toLane } = obs.motion
+      if (toLane === obs.lane) return
+      const t = progress(obs.z, LANE_SWITCH.startZ, LANE_SWITCH.endZ)
+      const from = laneX(obs.lane, obs.laneCount)
+      obs.x = from + (laneX(toLane, obs.laneCount) - from) * t * t * (3 - 2 * t)
+      if (t === 1) {
+        obs.lane = toLane
+        obs.warning = null
+      }
+    },
+    passingLifts: [0]
+  },
+  spike: {
+    spawn: (obs, { random, level }) => {
+      if (level < MOVING_LEVEL || random() >= SPIKE_DROP.chance) return
+      obs.motion.dropHeight = SPIKE_DROP.height
+      obs.warning = obs.x
+    },
+    update: (obs, tick) => {
+      // Falls under constant acceleration, like anything dropped
+      const t = progress(obs.z, SPIKE_DROP.startZ, SPIKE_DROP.endZ)
+      obs.lift = obs.motion.dropHeight * (1 - t * t) + spikeBob(tick)
+      if (t === 1) obs.warning = null
+    },
+    passingLifts: [-SPIKE_BOB.amplitude, 0, SPIKE_BOB.amplitude]
+  },
+  ring: {
+    spawn: (obs, { random, level }) => {
+      if (level < MOVING_LEVEL || random() >= RING_SWAY.chance) return
+      obs.motion.sway = RING_SWAY.amplitude
+      obs.motion.phase = random()
+    },
+    update: (obs, tick) => {
+      obs.lift = obs.motion.sway * Math.sin(cycle(tick, obs.motion.phase, RING_SWAY.period) * Math.PI * 2)
+    },
+    passingLifts: [-RING_SWAY.amplitude, 0, RING_SWAY.amplitude]
+  },
+  barrier: still,
+  laser: {
+    spawn: (obs, { random }) => {
+      obs.motion.phase = random()
+    },
+    update: (obs, tick) => {
+      const position = cycle(tick, obs.motion.phase, LASER_PULSE.period)
+      obs.solid = position < LASER_PULSE.on
+      obs.warning = position >= 1 - LASER_PULSE.warning ? obs.x : null
+    },
+    // Counted as always on
+    passingLifts: [0]
+  }
+}
+
+// Settings for an obstacle that stays where it spawned
+export function stillMotion(lane: number): ObstacleMotion {
+  return { toLane: lane, dropHeight: 0, sway: 0, phase: 0 }
+}
+
+export function spawnBehavior(obs: Obstacle, context: SpawnContext) {
+  OBSTACLE_BEHAVIORS[obs.type].spawn(obs, context)
+}
+
+export function updateBehavior(obs: Obstacle, tick: number) {
+  OBSTACLE_BEHAVIORS[obs.type].update(obs, tick)
+}
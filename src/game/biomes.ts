@@ -0,0 +1,132 @@
+import { OBSTACLE_TYPES, type ObstacleType } from './types'
+import biomeData from './biomes.json'
+
+// Everything about a biome that the renderer draws. Colors are #rrggbb strings.
+export interface BiomeLook {
+  // Background gradient, top to bottom
+  sky: [string, string, string]
+  ground: { base: string, grid: string }
+  fog: { color: string, near: number, far: number }
+  ambient: number
+  lights: [string, string, string]
+  walls: string
+  stars: { saturation: number, speed: number }
+  decorations: string[]
+  obstacles: Record<ObstacleType, string>
+}
+
+export interface Biome extends BiomeLook {
+  id: string
+  name: string
+  // Distance the biome lasts before the next one takes over
+  length: number
+}
+
+// Biomes cross-fade over this distance at the end of each one
+export const BIOME_FADE = 100
+
+// Designers edit biomes.json by hand, so check its shape before trusting it
+export function parseBiomes(data: unknown): Biome[] {
+  if (!Array.isArray(data) || data.length === 0) throw new Error('Invalid biomes: expected a non-empty array')
+
+  return data.map((raw, index) => {
+    const id = typeof raw?.id === 'string' ? raw.id : `#${index}`
+    const fail = (reason: string): never => {
+      throw new Error(`Invalid biome "${id}": ${reason}`)
+    }
+    const color = (value: unknown, field: string) => {
+      if (typeof value !== 'string' || !/^#[0-9a-f]{6}$/i.test(value)) fail(`${field} must be a #rrggbb color`)
+      return value as string
+    }
+    const palette = (value: unknown, field: string, length?: number) => {
+      if (!Array.isArray(value) || value.length === 0 || (length !== undefined && value.length !== length)) {
+        fail(`${field} must be a list of ${length ?? 'one or more'} colors`)
+      }
+      return (value as unknown[]).map((entry, i) => color(entry, `${field}[${i}]`))
+    }
+
+    if (typeof raw.name !== 'string') fail('name is required')
+    if (!(raw.length > BIOME_FADE)) fail(`length must be more than the ${BIOME_FADE} fade distance`)
+    if (!(raw.fog?.near >= 0 && raw.fog.far > raw.fog.near)) fail('fog needs 0 <= near < far')
+    if (!(raw.ambient >= 0)) fail('ambient must be a non-negative intensity')
+    if (!(raw.stars?.saturation >= 0 && raw.stars.saturation <= 1)) fail('stars.saturation must be between 0 and 1')
+    if (!(raw.stars.speed >= 0)) fail('stars.speed must be non-negative')
+
+    return {
+      id,
+      name: raw.name,
+      length: raw.length,
+      sky: palette(raw.sky, 'sky', 3) as Biome['sky'],
+      ground: { base: color(raw.ground?.base, 'ground.base'), grid: color(raw.ground?.grid, 'ground.grid') },
+      fog: { color: color(raw.fog.color, 'fog.color'), near: raw.fog.near, far: raw.fog.far },
+      ambient: raw.ambient,
+      lights: palette(raw.lights, 'lights', 3) as Biome['lights'],
+      walls: color(raw.walls, 'walls'),
+      stars: { saturation: raw.stars.saturation, speed: raw.stars.speed },
+      decorations: palette(raw.decorations, 'decorations'),
+      obstacles: Object.fromEntries(
+        OBSTACLE_TYPES.map(type => [type, color(raw.obstacles?.[type], `obstacles.${type}`)])
+      ) as Record<ObstacleType, string>
+    }
+  })
+}
+
+export const BIOMES = parseBiomes(biomeData)
+
+function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t
+}
+
+export function mixColors(from: string, to: string, t: number) {
+  const a = parseInt(from.slice(1), 16)
+  const b = parseInt(to.slice(1), 16)
+  const channel = (shift: number) => Math.round(lerp((a >> shift) & 0xff, (b >> shift) & 0xff, t))
+  return `#${((channel(16) << 16) | (channel(8) << 8) | channel(0)).toString(16).padStart(6, '0')}`
+}
+
+function mixPalettes(from: string[], to: string[], t: number) {
+  return Array.from({ length: Math.max(from.length, to.length) }, (_, i) =>
+    mixColors(from[i % from.length], to[i % to.length], t)
+  )
+}
+
+function mixLooks(from: BiomeLook, to: BiomeLook, t: number): BiomeLook {
+  return {
+    sky: mixPalettes(from.sky, to.sky, t) as BiomeLook['sky'],
+    ground: { base: mixColors(from.ground.base, to.ground.base, t), grid: mixColors(from.ground.grid, to.ground.grid, t) },
+    fog: {
+      color: mixColors(from.fog.color, to.fog.color, t),
+      near: lerp(from.fog.near, to.fog.near, t),
+      far: lerp(from.fog.far, to.fog.far, t)
+    },
+    ambient: lerp(from.ambient, to.ambient, t),
+    lights: mixPalettes(from.lights, to.lights, t) as BiomeLook['lights'],
+    walls: mixColors(from.walls, to.walls, t),
+    // Changing the star field rebuilds it, so it switches halfway instead of fading
+    stars: (t < 0.5 ? from : to).stars,
+    decorations: mixPalettes(from.decorations, to.decorations, t),
+    obstacles: Object.fromEntries(
+      OBSTACLE_TYPES.map(type => [type, mixColors(from.obstacles[type], to.obstacles[type], t)])
+    ) as Record<ObstacleType, string>
+  }
+}
+
+// The biome at a distance and the look to draw there. Biomes play in order and loop,
+// fading into the next one over the last BIOME_FADE of each.
+export function sampleBiome(biomes: Biome[], distance: number) {
+  const cycle = biomes.reduce((total, biome) => total + biome.length, 0)
+  let position = distance % cycle
+  let index = 0
+  while (position >= biomes[index].length) {
+    position -= biomes[index].length
+    index++
+  }
+
+  const biome = biomes[index]
+  const next = biomes[(index + 1) % biomes.length]
+  const t = Math.max(0, (position - (biome.length - BIOME_FADE)) / BIOME_FADE)
+  return {
+    biome: t < 0.5 ? biome : next,
+    look: t > 0 ? mixLooks(biome, next, t) : biome
+  }
+}
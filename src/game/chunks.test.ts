@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { OBSTACLE_SPEED, START_LANES } from './constants'
+import { buildChunkLibrary, isChunkSolvable, parseChunks, validateChunkLibraries, type ObstacleChunk } from './chunks'
+import chunkData from './chunks.json'
+import validatedLibraries from './chunkLibraries.json'
+
+describe('chunks', () => {
+  it('keeps every authored chunk on the starting track', () => {
+    const { library, rejected } = buildChunkLibrary(parseChunks(chunkData), undefined, START_LANES)
+    expect(rejected).toEqual([])
+    expect(library.length).toBe(chunkData.length)
+  })
+
+  it('has saved libraries up to date with the chunks', () => {
+    // If this fails, run `npm run chunks` to validate the chunks again
+    expect(validateChunkLibraries()).toEqual(validatedLibraries)
+  })
+
+  it('rejects a chunk with no way through', () => {
+    // Every lane has to be slid under and jumped over at once
+    const wall: ObstacleChunk = {
+      id: 'wall',
+      level: 1,
+      weight: 1,
+      obstacles: Array.from({ length: START_LANES }, (_, lane) => [
+        { lane, offset: 0, type: 'barrier' as const },
+        { lane, offset: 0, type: 'laser' as const }
+      ]).flat()
+    }
+    expect(isChunkSolvable(wall, OBSTACLE_SPEED)).toBe(false)
+    expect(buildChunkLibrary([wall]).rejected.map(rejection => rejection.id)).toEqual(['wall'])
+  })
+
+  it('reports malformed chunks instead of throwing on them', () => {
+    expect(() => parseChunks({})).toThrow('expected an array')
+    expect(() => parseChunks([null])).toThrow('Invalid chunk "#0": expected an object')
+    expect(() => parseChunks([{ id: 'a', level: 0, obstacles: [{ offset: 0 }] }])).toThrow('level')
+    expect(() => parseChunks([{ id: 'b', level: 1, obstacles: [7] }])).toThrow('obstacles must be objects')
+    expect(() => parseChunks([{ id: 'c', level: 1, obstacles: [{ offset: 0, type: 'boulder' }] }])).toThrow('boulder')
+  })
+})
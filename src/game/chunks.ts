@@ -0,0 +1,294 @@
+import { GROUND_Y, MIN_LANES, MAX_LANES, START_LANES } from './constants'
+import { applyInput, stepPlayer, hitReach, isColliding, playerStateKey, type ObstacleBody, type Sweep } from './physics'
+import { OBSTACLE_BEHAVIORS } from './behaviors'
+import { laneX } from './lanes'
+import { DIFFICULTY_CURVE, MAX_SPEED, minSpawnGap, type DifficultyCurve } from './difficulty'
+import { weightedPick, type Rng } from './rng'
+import { OBSTACLE_TYPES, type InputAction, type ObstacleType, type PlayerState } from './types'
+import chunkData from './chunks.json'
+import validatedLibraries from './chunkLibraries.json'
+
+// One obstacle in an authored chunk. `offset` is the distance behind the chunk's
+// leading edge. Omitting `lane` or `type` lets the spawner pick one at random.
+// Lanes count from the left edge, so a chunk only spawns on tracks wide enough for it.
+export interface ChunkObstacle {
+  lane?: number
+  offset: number
+  type?: ObstacleType
+}
+
+export interface ObstacleChunk {
+  id: string
+  level: number
+  weight: number
+  obstacles: ChunkObstacle[]
+}
+
+export function chunkLength(chunk: ObstacleChunk) {
+  return Math.max(0, ...chunk.obstacles.map(obs => obs.offset))
+}
+
+// Fewest lanes a chunk needs, going by its fixed lanes
+function chunkWidth(chunk: ObstacleChunk) {
+  return Math.max(1, ...chunk.obstacles.map(obs => (obs.lane ?? 0) + 1))
+}
+
+// Designers edit chunks.json by hand, so check its shape before trusting it
+export function parseChunks(data: unknown): ObstacleChunk[] {
+  if (!Array.isArray(data)) throw new Error('Invalid chunks: expected an array')
+
+  return data.map((raw, index) => {
+    const id = typeof raw?.id === 'string' ? raw.id : `#${index}`
+    const fail = (reason: string): never => {
+      throw new Error(`Invalid chunk "${id}": ${reason}`)
+    }
+
+    if (typeof raw !== 'object' || raw === null) fail('expected an object')
+    if (!Number.isInteger(raw.level) || raw.level < 1) fail('level must be a positive integer')
+    if (raw.weight !== undefined && !(raw.weight > 0)) fail('weight must be positive')
+    if (!Array.isArray(raw.obstacles) || raw.obstacles.length === 0) fail('obstacles must be a non-empty array')
+
+    const obstacles = (raw.obstacles as unknown[]).map((entry): ChunkObstacle => {
+      if (typeof entry !== 'object' || entry === null) fail('obstacles must be objects')
+      const obs = entry as Record<string, unknown>
+      if (typeof obs.offset !== 'number' || obs.offset < 0) fail('offset must be a non-negative number')
+      if (obs.lane !== undefined && !(Number.isInteger(obs.lane) && (obs.lane as number) >= 0 && (obs.lane as number) < MAX_LANES)) {
+        fail(`lane ${obs.lane} does not exist`)
+      }
+      if (obs.type !== undefined && !OBSTACLE_TYPES.includes(obs.type as ObstacleType)) {
+        fail(`unknown obstacle type "${obs.type}"`)
+      }
+      return obs as unknown as ChunkObstacle
+    })
+
+    return { id, level: raw.level, weight: raw.weight ?? 1, obstacles }
+  })
+}
+
+const VALIDATION_ACTIONS: (InputAction | null)[] = [null, 'moveLeft', 'moveRight', 'jump', 'slide']
+
+// Obstacles are checked where they settle once their behaviors are done moving them across
+// the track, at every height they can pass the player at, and with laser gates always on
+interface PlacedObstacle extends ObstacleBody {
+  lifts: number[]
+}
+
+// Every concrete layout a chunk can spawn as, filling in random lanes and types
+function chunkVariants(chunk: ObstacleChunk, laneCount: number): Omit<PlacedObstacle, 'z'>[][] {
+  return chunk.obstacles.reduce<Omit<PlacedObstacle, 'z'>[][]>((variants, obs) => {
+    const lanes = obs.lane === undefined ? Array.from({ length: laneCount }, (_, lane) => lane) : [obs.lane]
+    const types = obs.type === undefined ? OBSTACLE_TYPES : [obs.type]
+    return variants.flatMap(variant =>
+      lanes.flatMap(lane => types.map(type => [...variant, {
+        type,
+        x: laneX(lane, laneCount),
+        lift: 0,
+        solid: true,
+        lifts: OBSTACLE_BEHAVIORS[type].passingLifts
+      }]))
+    )
+  }, [[]])
+}
+
+// Every state the player can reach, with transitions per validation action, built once
+// with the real movement rules so the search below can work on plain ids.
+// Slides only start from the ground, which keeps the state count small; the player can
+// do more than this, so a layout that passes here is still survivable.
+interface PlayerAutomaton {
+  states: PlayerState[]
+  // next[id * actions + action] is the following state id, or -1 if the action is skipped
+  next: number[]
+  starts: number[]
+}
+
+const playerAutomata = new Map<number, PlayerAutomaton>()
+
+function getPlayerAutomaton(laneCount: number) {
+  const cached = playerAutomata.get(laneCount)
+  if (cached) return cached
+
+  const states: PlayerState[] = []
+  const ids = new Map<number, number>()
+  const intern = (player: PlayerState) => {
+    const key = playerStateKey(player)
+    let id = ids.get(key)
+    if (id === undefined) {
+      id = states.length
+      ids.set(key, id)
+      states.push(player)
+    }
+    return id
+  }
+
+  const starts = Array.from({ length: laneCount }, (_, lane) => intern({
+    lane,
+    laneCount,
+    y: GROUND_Y,
+    velocityY: 0,
+    isJumping: false,
+    slideTicks: 0
+  }))
+
+  const next: number[] = []
+  for (let id = 0; id < states.length; id++) {
+    const state = states[id]
+    VALIDATION_ACTIONS.forEach((action, index) => {
+      if (action === 'slide' && (state.isJumping || state.slideTicks > 0)) {
+        next[id * VALIDATION_ACTIONS.length + index] = -1
+        return
+      }
+      const player = { ...state }
+      if (action) applyInput(player, action)
+      stepPlayer(player)
+      next[id * VALIDATION_ACTIONS.length + index] = intern(player)
+    })
+  }
+
+  const automaton = { states, next, starts }
+  playerAutomata.set(laneCount, automaton)
+  return automaton
+}
+
+function collidesAtAnyLift(player: PlayerState, obs: PlacedObstacle, sweep: Sweep) {
+  for (const lift of obs.lifts) {
+    obs.lift = lift
+    if (isColliding(player, obs, sweep)) return true
+  }
+  return false
+}
+
+// Searches every sequence of lane changes, jumps and slides (one per tick) for a way
+// through one concrete layout at a constant speed
+function isLayoutSolvable(obstacles: PlacedObstacle[], speed: number, laneCount: number) {
+  const { states, next, starts } = getPlayerAutomaton(laneCount)
+  let frontier = starts
+
+  while (obstacles.some(obs => obs.z < hitReach(obs.type))) {
+    for (const obs of obstacles) {
+      obs.z += speed
+    }
+    const nearby = obstacles.filter(obs => obs.z > -hitReach(obs.type) && obs.z - speed < hitReach(obs.type))
+
+    const seen = new Uint8Array(states.length)
+    const reached: number[] = []
+    for (const id of frontier) {
+      for (let action = 0; action < VALIDATION_ACTIONS.length; action++) {
+        const target = next[id * VALIDATION_ACTIONS.length + action]
+        if (target < 0 || seen[target]) continue
+        seen[target] = 1
+        const sweep = { travelled: speed, fromY: states[id].y }
+        if (nearby.some(obs => collidesAtAnyLift(states[target], obs, sweep))) continue
+        reached.push(target)
+      }
+    }
+
+    if (reached.length === 0) return false
+    frontier = reached
+  }
+  return true
+}
+
+// A chunk is solvable at a speed if every layout it can spawn as is survivable
+export function isChunkSolvable(chunk: ObstacleChunk, speed: number, laneCount = START_LANES) {
+  // Start far enough out that any jump timing is still possible at the first obstacle
+  const lead = minSpawnGap(speed)
+  return chunkVariants(chunk, laneCount).every(variant =>
+    isLayoutSolvable(
+      variant.map((obs, index) => ({ ...obs, z: -lead - chunk.obstacles[index].offset })),
+      speed,
+      laneCount
+    )
+  )
+}
+
+// Speeds a chunk can meet: both ends of every curve segment where its level is allowed
+function speedsForLevel(curve: DifficultyCurve, level: number) {
+  const speeds = new Set<number>()
+  curve.forEach((stage, index) => {
+    if (stage.chunkLevel < level) return
+    speeds.add(Math.min(MAX_SPEED, stage.speed))
+    const next = curve[index + 1]
+    if (next) speeds.add(Math.min(MAX_SPEED, next.speed))
+  })
+  return [...speeds]
+}
+
+// A chunk left out of a library because no way through it was found at these speeds
+export interface ChunkRejection {
+  id: string
+  speeds: number[]
+}
+
+// Drops chunks that don't fit the track or cannot be survived somewhere on the curve.
+// Chunks are authored for the starting lane count, so only rejections there are reported;
+// on narrower tracks it is expected that some chunks leave no way through.
+export function buildChunkLibrary(
+  chunks: ObstacleChunk[],
+  curve: DifficultyCurve = DIFFICULTY_CURVE,
+  laneCount = START_LANES
+) {
+  const rejected: ChunkRejection[] = []
+  const library = chunks.filter(chunk => {
+    if (chunkWidth(chunk) > laneCount) return false
+    const failing = speedsForLevel(curve, chunk.level).filter(speed => !isChunkSolvable(chunk, speed, laneCount))
+    if (failing.length > 0) {
+      if (laneCount === START_LANES) rejected.push({ id: chunk.id, speeds: failing })
+      return false
+    }
+    return true
+  })
+  return { library, rejected }
+}
+
+// Chunks usable on a track with a given lane count
+export type ChunkLibrary = (laneCount: number) => ObstacleChunk[]
+
+const LANE_COUNTS = Array.from({ length: MAX_LANES - MIN_LANES + 1 }, (_, i) => MIN_LANES + i)
+
+// Ids of the chunks kept on each lane count. The search takes most of a second per lane
+// count, far too long for the main thread, so `npm run chunks` runs it ahead of time and
+// saves the result to chunkLibraries.json, which a test keeps in step with the chunks.
+export function validateChunkLibraries(chunks = parseChunks(chunkData)): Record<number, string[]> {
+  return Object.fromEntries(LANE_COUNTS.map(laneCount => [
+    laneCount,
+    buildChunkLibrary(chunks, DIFFICULTY_CURVE, laneCount).library.map(chunk => chunk.id)
+  ]))
+}
+
+const chunkLibraries = new Map<number, ObstacleChunk[]>()
+
+export function getChunkLibrary(laneCount: number) {
+  let library = chunkLibraries.get(laneCount)
+  if (!library) {
+    const chunks = parseChunks(chunkData)
+    const ids: string[] | undefined = (validatedLibraries as Record<string, string[]>)[laneCount]
+    // A lane count missing from the saved libraries is validated on the spot
+    library = ids
+      ? chunks.filter(chunk => ids.includes(chunk.id))
+      : buildChunkLibrary(chunks, DIFFICULTY_CURVE, laneCount).library
+    chunkLibraries.set(laneCount, library)
+  }
+  return library
+}
+
+// Used when no authored chunk is allowed yet
+const FALLBACK_CHUNK: ObstacleChunk = { id: 'fallback', level: 1, weight: 1, obstacles: [{ offset: 0 }] }
+
+// Pick a chunk allowed at the current level, mirrored across the track half the time for variety
+export function selectChunk(rng: Rng, chunks: ObstacleChunk[], chunkLevel: number, laneCount: number): ObstacleChunk {
+  const eligible = chunks.filter(chunk => chunk.level <= chunkLevel)
+  if (eligible.length === 0) return FALLBACK_CHUNK
+
+  const weights = Object.fromEntries(eligible.map(chunk => [chunk.id, chunk.weight]))
+  const id = weightedPick(rng, weights)
+  const chunk = eligible.find(candidate => candidate.id === id)!
+
+  if (rng() < 0.5) return chunk
+  return {
+    ...chunk,
+    obstacles: chunk.obstacles.map(obs => ({
+      ...obs,
+      lane: obs.lane === undefined ? undefined : laneCount - 1 - obs.lane
+    }))
+  }
+}
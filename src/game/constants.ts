@@ -0,0 +1,63 @@
+// Game Constants
+export const LANE_WIDTH = 2.5
+export const OBSTACLE_SPEED = 0.15
+export const SPAWN_INTERVAL = 1500
+export const JUMP_FORCE = 0.25
+export const GRAVITY = 0.012
+export const SLIDE_TICKS = 40
+
+// Player hitbox
+export const PLAYER_SIZE = 0.6
+export const SLIDE_HEIGHT = 0.3
+
+// Simulation timing. Speeds and forces above are expressed per tick.
+export const TICK_RATE = 60
+export const TICK_MS = 1000 / TICK_RATE
+export const MAX_TICKS_PER_ADVANCE = 5
+// Ticks between HUD snapshots. The scene reads the simulation directly every frame,
+// so React only needs to hear about the run often enough to keep the HUD current.
+export const HUD_UPDATE_TICKS = 6
+
+// Music tempo. Chosen so a beat is a whole number of ticks, which lets spawns snap to it.
+export const MUSIC_BPM = 120
+export const TICKS_PER_BEAT = (TICK_RATE * 60) / MUSIC_BPM
+
+// World layout
+export const GROUND_Y = 0.5
+export const SPAWN_Z = -60
+export const DESPAWN_Z = 10
+
+// Lanes. The track merges and splits between MIN_LANES and MAX_LANES as the run goes on,
+// with a lane shift stretch every LANE_SHIFT_INTERVAL (plus up to half again at random).
+export const MIN_LANES = 2
+export const MAX_LANES = 5
+export const START_LANES = 3
+export const LANE_SHIFT_LENGTH = 16
+export const LANE_SHIFT_INTERVAL = 300
+
+// Pickups
+export const PICKUP_SPAWN_GAP = 18
+export const SHARD_TRAIL_LENGTH = 4
+export const SHARD_SPACING = 2
+export const SHARD_SCORE = 50
+export const MAGNET_RANGE = 12
+export const SLOWMO_FACTOR = 0.5
+export const POWER_UP_TICKS = {
+  shield: 8 * TICK_RATE,
+  magnet: 6 * TICK_RATE,
+  slowmo: 4 * TICK_RATE
+}
+
+// Scoring. Points come from distance plus bonuses, all scaled by the combo multiplier,
+// which climbs a step every COMBO_STEP clean clears and breaks on a hit or after
+// COMBO_TICKS without one.
+export const DISTANCE_SCORE = 10
+export const RING_BONUS = 100
+export const NEAR_MISS_BONUS = 50
+// A near miss needs the player to have left the obstacle's lane this recently
+export const NEAR_MISS_TICKS = 40
+export const COMBO_STEP = 3
+export const MAX_COMBO_MULTIPLIER = 5
+export const COMBO_TICKS = 5 * TICK_RATE
+// How long a bonus stays listed for score popups
+export const BONUS_DISPLAY_TICKS = TICK_RATE
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { COURSE_LIMITS, courseFrom, courseLead, createCourse, exportCourse, normalizeCourse, parseCourse, type Course } from './course'
+import { createSimulation, stepSimulation } from './simulation'
+
+function sampleCourse(): Course {
+  return {
+    ...createCourse('SAMPLE'),
+    seed: 99,
+    length: 120,
+    obstacles: [
+      { distance: 40, lane: 0, type: 'crystal' },
+      { distance: 80, lane: 2, type: 'laser' }
+    ]
+  }
+}
+
+describe('courses', () => {
+  it('round-trips through an exported file under a new id', () => {
+    const course = sampleCourse()
+    const imported = parseCourse(exportCourse(course))
+    expect(imported.id).not.toBe(course.id)
+    expect({ ...imported, id: course.id }).toEqual(course)
+  })
+
+  it('rejects files that are not courses', () => {
+    const file = JSON.parse(exportCourse(sampleCourse()))
+    const broken = (changes: Record<string, unknown>) => JSON.stringify({ ...file, ...changes })
+    expect(() => parseCourse('{')).toThrow('not JSON')
+    expect(() => parseCourse('null')).toThrow('expected an object')
+    expect(() => parseCourse(broken({ version: 99 }))).toThrow('unsupported version')
+    expect(() => parseCourse(broken({ laneCount: 99 }))).toThrow('lane count')
+    expect(() => parseCourse(broken({ speed: -1 }))).toThrow('speed')
+    expect(() => parseCourse(broken({ obstacles: [{ distance: 10, lane: 9, type: 'crystal' }] }))).toThrow('lane 9')
+    expect(() => parseCourse(broken({ obstacles: [{ distance: 10, lane: 0, type: 'boulder' }] }))).toThrow('boulder')
+  })
+
+  it('keeps edits within the limits', () => {
+    const normalized = normalizeCourse({
+      ...sampleCourse(),
+      length: 1,
+      obstacles: [{ distance: 60, lane: 0, type: 'ring' }, { distance: 10, lane: 9, type: 'ring' }]
+    })
+    expect(normalized.length).toBe(COURSE_LIMITS.minLength)
+    expect(normalized.obstacles).toEqual([])
+  })
+
+  it('test-plays from a point without an obstacle on top of the player', () => {
+    const rest = courseFrom(sampleCourse(), 40)
+    expect(rest.length).toBe(80)
+    expect(rest.obstacles).toEqual([{ distance: 40, lane: 2, type: 'laser' }])
+  })
+
+  it('keeps obstacles out of the lead-in', () => {
+    const course = { ...sampleCourse(), obstacles: [{ distance: 0.5, lane: 1, type: 'barrier' as const }] }
+    expect(normalizeCourse(course).obstacles).toEqual([{ distance: courseLead(course), lane: 1, type: 'barrier' }])
+
+    const nearStart = { ...sampleCourse(), obstacles: [{ distance: 40.5, lane: 1, type: 'barrier' as const }] }
+    expect(courseFrom(nearStart, 40).obstacles).toEqual([])
+  })
+
+  it('leaves time to react to the first obstacle', () => {
+    // The player starts in the middle lane and does nothing until the obstacle is close
+    const course = normalizeCourse({ ...sampleCourse(), obstacles: [{ distance: 0, lane: 1, type: 'barrier' }] })
+    const sim = createSimulation({ seed: 1, course })
+    while (!sim.gameOver && sim.distance < courseLead(course) / 2) stepSimulation(sim)
+    expect(sim.gameOver).toBe(false)
+    expect(sim.obstacles.length).toBe(1)
+  })
+
+  it('finishes an empty course', () => {
+    const sim = createSimulation({ seed: 1, course: { ...sampleCourse(), obstacles: [] } })
+    while (!sim.gameOver && sim.tick < 10000) stepSimulation(sim)
+    expect(sim.finished).toBe(true)
+    expect(sim.killedBy).toBe(null)
+  })
+})
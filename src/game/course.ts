@@ -0,0 +1,167 @@
+import { MAX_LANES, MIN_LANES, OBSTACLE_SPEED, START_LANES, TICK_RATE } from './constants'
+import { MAX_SPEED, minSpawnGap, type DifficultyCurve } from './difficulty'
+import { randomSeed } from './rng'
+import { OBSTACLE_TYPES, type ObstacleType } from './types'
+
+// Hand-built courses: a fixed run of obstacles ending at a finish line, made in the course
+// editor and played as timed levels alongside the endless mode.
+
+// Bump when the exported format changes
+export const COURSE_VERSION = 1
+
+// An obstacle by where it stands on the track. `distance` is how far the player has
+// travelled when it reaches them.
+export interface CourseObstacle {
+  distance: number
+  lane: number
+  type: ObstacleType
+}
+
+export interface Course {
+  // Local identifier; left out of exported files
+  id: string
+  name: string
+  laneCount: number
+  // Track speed, fixed for the whole course
+  speed: number
+  // Distance to the finish line
+  length: number
+  // Seeds what the course leaves to chance, like when laser gates pulse
+  seed: number
+  // In order of distance
+  obstacles: CourseObstacle[]
+}
+
+export const COURSE_LIMITS = {
+  minLength: 50,
+  maxLength: 5000,
+  minSpeed: OBSTACLE_SPEED,
+  maxSpeed: MAX_SPEED,
+  nameLength: 24
+}
+
+export function createCourseId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function createCourse(name = 'NEW COURSE'): Course {
+  return {
+    id: createCourseId(),
+    name,
+    laneCount: START_LANES,
+    speed: OBSTACLE_SPEED,
+    length: 300,
+    seed: randomSeed(),
+    obstacles: []
+  }
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value))
+}
+
+// Clear track the player gets before the first obstacle: room to jump it at the course's
+// speed, so nothing spawns on top of them
+export function courseLead(course: Course) {
+  return minSpawnGap(course.speed)
+}
+
+// Keep a course within the limits after an edit: settings clamped, obstacles sorted and
+// kept out of the lead, and any that fell off the track or out of the lanes dropped
+export function normalizeCourse(course: Course): Course {
+  const laneCount = clamp(Math.round(course.laneCount), MIN_LANES, MAX_LANES)
+  const length = clamp(course.length, COURSE_LIMITS.minLength, COURSE_LIMITS.maxLength)
+  const speed = clamp(course.speed, COURSE_LIMITS.minSpeed, COURSE_LIMITS.maxSpeed)
+  const lead = minSpawnGap(speed)
+  return {
+    ...course,
+    name: course.name.slice(0, COURSE_LIMITS.nameLength),
+    laneCount,
+    length,
+    speed,
+    obstacles: course.obstacles
+      .filter(obs => obs.lane < laneCount && obs.distance >= 0 && obs.distance < length)
+      .map(obs => (obs.distance < lead ? { ...obs, distance: lead } : obs))
+      .sort((a, b) => a.distance - b.distance)
+  }
+}
+
+// The course's speed held flat from start to finish. Spawn gaps and weights go unused,
+// since the course places every obstacle itself.
+export function courseCurve(course: Course): DifficultyCurve {
+  return [{
+    tier: 'warm-up',
+    distance: 0,
+    speed: course.speed,
+    spawnGap: minSpawnGap(course.speed),
+    weights: { crystal: 0, spike: 0, ring: 0, barrier: 0, laser: 0 },
+    chunkLevel: 1
+  }]
+}
+
+// The rest of a course from a point along it, for test-playing from the middle. Obstacles
+// within the lead of that point would leave no time to react, so they are left out.
+export function courseFrom(course: Course, from: number): Course {
+  const lead = courseLead(course)
+  return {
+    ...course,
+    length: course.length - from,
+    obstacles: course.obstacles
+      .filter(obs => obs.distance - from >= lead)
+      .map(obs => ({ ...obs, distance: obs.distance - from }))
+  }
+}
+
+export function formatCourseTime(ticks: number) {
+  return `${(ticks / TICK_RATE).toFixed(2)}s`
+}
+
+interface ExportedCourse extends Omit<Course, 'id'> {
+  version: number
+}
+
+export function exportCourse({ id, ...course }: Course) {
+  const exported: ExportedCourse = { version: COURSE_VERSION, ...course }
+  return JSON.stringify(exported, null, 2)
+}
+
+// Course files are shared and edited by hand, so check their shape before trusting them.
+// Imports get a fresh id so they never overwrite a saved course.
+export function parseCourse(text: string): Course {
+  let data: Partial<ExportedCourse>
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Invalid course: not JSON')
+  }
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid course: ${reason}`)
+  }
+
+  if (typeof data !== 'object' || data === null) fail('expected an object')
+  if (data.version !== COURSE_VERSION) fail(`unsupported version ${data.version}`)
+  if (typeof data.name !== 'string') fail('name must be a string')
+  if (!Number.isInteger(data.laneCount) || data.laneCount! < MIN_LANES || data.laneCount! > MAX_LANES) {
+    fail(`lane count must be from ${MIN_LANES} to ${MAX_LANES}`)
+  }
+  if (typeof data.speed !== 'number' || !(data.speed > 0)) fail('speed must be a positive number')
+  if (typeof data.length !== 'number' || !(data.length > 0)) fail('length must be a positive number')
+  if (!Array.isArray(data.obstacles)) fail('obstacles must be an array')
+
+  const obstacles = data.obstacles!.map((obs): CourseObstacle => {
+    if (typeof obs?.distance !== 'number' || obs.distance < 0) fail('obstacle distance must be a non-negative number')
+    if (!Number.isInteger(obs.lane) || obs.lane < 0 || obs.lane >= data.laneCount!) fail(`lane ${obs.lane} does not exist`)
+    if (!OBSTACLE_TYPES.includes(obs.type)) fail(`unknown obstacle type "${obs.type}"`)
+    return { distance: obs.distance, lane: obs.lane, type: obs.type }
+  })
+
+  return normalizeCourse({
+    id: createCourseId(),
+    name: data.name!,
+    laneCount: data.laneCount!,
+    speed: data.speed!,
+    length: data.length!,
+    seed: Number.isInteger(data.seed) ? data.seed! >>> 0 : randomSeed(),
+    obstacles
+  })
+}
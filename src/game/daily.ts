@@ -0,0 +1,97 @@
+import { createSimulation, drainEvents, stepSimulation } from './simulation'
+import type { ObstacleType, Replay } from './types'
+
+// Daily Void: one course a day for everyone, seeded from the UTC date
+
+// Every daily run uses the same spawn timing, whatever the player's sound settings, so
+// everyone faces the same obstacles. Beat sync is opt-in, so the daily leaves it off.
+export const DAILY_BEAT_SYNC = false
+
+// Track covered by each square of the shared result
+const SEGMENT_LENGTH = 100
+const SEGMENTS_PER_ROW = 10
+// Multiplier a segment needs to count as a combo segment
+const COMBO_SEGMENT_MULTIPLIER = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The day as YYYY-MM-DD in UTC, so the course changes at the same moment everywhere
+export function dailyDate(now = new Date()) {
+  return now.toISOString().slice(0, 10)
+}
+
+export function previousDate(date: string) {
+  return dailyDate(new Date(Date.parse(date) - DAY_MS))
+}
+
+// FNV-1a hash of the date
+export function dailySeed(date: string) {
+  let hash = 0x811c9dc5
+  for (const char of `void-runner:${date}`) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Least to most eventful; a segment shows the most eventful thing that happened in it
+export type DailySegment = 'clean' | 'combo' | 'hit' | 'crash'
+const SEGMENT_RANK: DailySegment[] = ['clean', 'combo', 'hit', 'crash']
+
+const SEGMENT_EMOJI: Record<DailySegment, string> = {
+  clean: '🟩',
+  combo: '🟪',
+  hit: '🟨',
+  crash: '🟥'
+}
+
+const OBSTACLE_EMOJI: Record<ObstacleType, string> = {
+  crystal: '💎',
+  spike: '🔺',
+  ring: '⭕',
+  barrier: '🚧',
+  laser: '⚡'
+}
+
+// Re-simulate a finished run and grade each stretch of track
+export function summarizeRun(replay: Replay): DailySegment[] {
+  const sim = createSimulation({ seed: replay.seed, playback: replay.inputs, beatSync: replay.beatSync })
+  const segments: DailySegment[] = []
+  const grade = (segment: DailySegment) => {
+    const index = Math.floor(sim.distance / SEGMENT_LENGTH)
+    while (segments.length <= index) segments.push('clean')
+    if (SEGMENT_RANK.indexOf(segment) > SEGMENT_RANK.indexOf(segments[index])) segments[index] = segment
+  }
+
+  while (!sim.gameOver && sim.tick < replay.finalTick) {
+    stepSimulation(sim)
+    grade(sim.combo.multiplier >= COMBO_SEGMENT_MULTIPLIER ? 'combo' : 'clean')
+    for (const event of drainEvents(sim)) {
+      if (event.type === 'shieldBreak') grade('hit')
+      if (event.type === 'gameOver') grade('crash')
+    }
+  }
+  return segments
+}
+
+export interface DailyResult {
+  date: string
+  score: number
+  distance: number
+  killedBy: ObstacleType | null
+  segments: DailySegment[]
+}
+
+// Plain text to paste into chat
+export function formatDailyResult(result: DailyResult, streak: number) {
+  const rows: string[] = []
+  for (let i = 0; i < result.segments.length; i += SEGMENTS_PER_ROW) {
+    rows.push(result.segments.slice(i, i + SEGMENTS_PER_ROW).map(segment => SEGMENT_EMOJI[segment]).join(''))
+  }
+  const crash = result.killedBy ? ` ${OBSTACLE_EMOJI[result.killedBy]}` : ''
+  return [
+    `VOID RUNNER · Daily Void ${result.date}`,
+    `Score ${result.score} · ${Math.floor(result.distance)}m`,
+    ...rows.map((row, i) => (i === rows.length - 1 ? row + crash : row)),
+    `Streak ${streak} 🔥`
+  ].join('\n')
+}
@@ -0,0 +1,112 @@
+import {
+  OBSTACLE_SPEED,
+  SPAWN_INTERVAL,
+  JUMP_FORCE,
+  GRAVITY,
+  TICK_MS,
+  SPAWN_Z
+} from './constants'
+import type { ObstacleType } from './types'
+
+export type DifficultyTier = 'warm-up' | 'surge' | 'void'
+
+// A point on the difficulty curve. Values are interpolated between stages by distance
+// travelled, and the last stage holds forever.
+export interface DifficultyStage {
+  tier: DifficultyTier
+  distance: number
+  speed: number
+  // World units between consecutive spawns
+  spawnGap: number
+  weights: Record<ObstacleType, number>
+  // Highest chunk level that may be selected
+  chunkLevel: number
+}
+
+export type DifficultyCurve = DifficultyStage[]
+
+export interface DifficultyState {
+  tier: DifficultyTier
+  speed: number
+  spawnGap: number
+  weights: Record<ObstacleType, number>
+  chunkLevel: number
+}
+
+// Tune here; the simulation only ever samples the curve
+export const DIFFICULTY_CURVE: DifficultyCurve = [
+  {
+    tier: 'warm-up',
+    distance: 0,
+    speed: OBSTACLE_SPEED,
+    spawnGap: OBSTACLE_SPEED * (SPAWN_INTERVAL / TICK_MS),
+    weights: { crystal: 2, spike: 2, ring: 1, barrier: 1, laser: 0 },
+    chunkLevel: 1
+  },
+  {
+    tier: 'surge',
+    distance: 500,
+    speed: 0.22,
+    spawnGap: 14,
+    weights: { crystal: 2, spike: 2, ring: 2, barrier: 2, laser: 1 },
+    chunkLevel: 2
+  },
+  {
+    tier: 'void',
+    distance: 1500,
+    speed: 0.3,
+    spawnGap: 15.5,
+    weights: { crystal: 1, spike: 2, ring: 3, barrier: 2, laser: 2 },
+    chunkLevel: 3
+  },
+  {
+    tier: 'void',
+    distance: 4000,
+    speed: 0.4,
+    spawnGap: 17,
+    weights: { crystal: 1, spike: 3, ring: 3, barrier: 3, laser: 3 },
+    chunkLevel: 3
+  }
+]
+
+// Physical limits. Obstacles must stay on screen long enough to react to, and
+// consecutive spawns must leave room to land from a full jump before the next arrives.
+const MIN_WARNING_TICKS = 90
+const OBSTACLE_DEPTH = 2
+const JUMP_AIRTIME_TICKS = (2 * JUMP_FORCE) / GRAVITY
+
+export const MAX_SPEED = -SPAWN_Z / MIN_WARNING_TICKS
+
+export function minSpawnGap(speed: number) {
+  return JUMP_AIRTIME_TICKS * speed + OBSTACLE_DEPTH
+}
+
+function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t
+}
+
+export function sampleDifficulty(curve: DifficultyCurve, distance: number): DifficultyState {
+  let index = 0
+  while (index < curve.length - 1 && curve[index + 1].distance <= distance) {
+    index++
+  }
+
+  const from = curve[index]
+  const to = curve[index + 1] ?? from
+  const span = to.distance - from.distance
+  const t = span > 0 ? Math.min(1, (distance - from.distance) / span) : 0
+
+  const weights = { ...from.weights }
+  for (const type of Object.keys(weights) as ObstacleType[]) {
+    weights[type] = lerp(from.weights[type], to.weights[type], t)
+  }
+
+  const speed = Math.min(MAX_SPEED, lerp(from.speed, to.speed, t))
+  return {
+    tier: from.tier,
+    speed,
+    spawnGap: Math.max(minSpawnGap(speed), lerp(from.spawnGap, to.spawnGap, t)),
+    weights,
+    chunkLevel: from.chunkLevel
+  }
+}
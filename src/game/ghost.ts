@@ -0,0 +1,33 @@
+import { createSimulation, drainEvents, stepSimulation, type Simulation } from './simulation'
+import type { ActiveEffects, Replay, SimulationSnapshot } from './types'
+
+export interface GhostSnapshot {
+  player: SimulationSnapshot['player']
+  effects: ActiveEffects
+  distance: number
+  // The ghost's run has ended, so it stays where it crashed
+  finished: boolean
+}
+
+// The ghost is the best run's replay, simulated alongside the live run
+export function createGhost(replay: Replay): Simulation {
+  return createSimulation({ seed: replay.seed, playback: replay.inputs, beatSync: replay.beatSync })
+}
+
+// Step the ghost up to the live run's tick so both are compared at the same moment
+export function advanceGhost(ghost: Simulation, tick: number) {
+  while (!ghost.gameOver && ghost.tick < tick) {
+    stepSimulation(ghost)
+  }
+  drainEvents(ghost)
+}
+
+export function getGhostSnapshot(ghost: Simulation): GhostSnapshot {
+  const { lane, laneCount, y, isJumping, slideTicks } = ghost.player
+  return {
+    player: { lane, laneCount, y, isJumping, isSliding: slideTicks > 0 },
+    effects: { ...ghost.effects },
+    distance: ghost.distance,
+    finished: ghost.gameOver
+  }
+}
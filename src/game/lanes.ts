@@ -0,0 +1,57 @@
+import { LANE_WIDTH, LANE_SHIFT_LENGTH, MIN_LANES, MAX_LANES } from './constants'
+import type { LaneLayout } from './types'
+import type { Rng } from './rng'
+
+// Lanes are centered on x = 0, so a track's lane positions depend on its lane count
+export function laneX(lane: number, laneCount: number) {
+  return (lane - (laneCount - 1) / 2) * LANE_WIDTH
+}
+
+export function createLaneLayout(count: number): LaneLayout {
+  return { count, shifts: [] }
+}
+
+// Lanes switch over halfway through a shift
+export function laneCountAt(layout: LaneLayout, distance: number) {
+  let count = layout.count
+  for (const shift of layout.shifts) {
+    if (distance >= (shift.start + shift.end) / 2) count = shift.to
+  }
+  return count
+}
+
+// Half the track's width at a distance, easing smoothly through shifts
+export function halfWidthAt(layout: LaneLayout, distance: number) {
+  let count = layout.count
+  for (const shift of layout.shifts) {
+    const t = Math.min(1, Math.max(0, (distance - shift.start) / (shift.end - shift.start)))
+    count += (shift.to - count) * t * t * (3 - 2 * t)
+  }
+  return (count * LANE_WIDTH) / 2
+}
+
+// Whether any shift overlaps the stretch of track between two distances
+export function isInLaneShift(layout: LaneLayout, from: number, to: number) {
+  return layout.shifts.some(shift => shift.start < to && shift.end > from)
+}
+
+// The lane in the new layout closest to where the player was standing
+export function remapLane(lane: number, from: number, to: number) {
+  const nearest = Math.round(laneX(lane, from) / LANE_WIDTH + (to - 1) / 2)
+  return Math.min(to - 1, Math.max(0, nearest))
+}
+
+// Add a shift starting at a distance, merging or splitting one lane. Returns its length.
+export function planLaneShift(rng: Rng, layout: LaneLayout, start: number) {
+  const from = laneCountAt(layout, start)
+  const to = from === MIN_LANES ? from + 1 : from === MAX_LANES ? from - 1 : from + (rng() < 0.5 ? -1 : 1)
+  layout.shifts.push({ start, end: start + LANE_SHIFT_LENGTH, from, to })
+  return LANE_SHIFT_LENGTH
+}
+
+// Forget shifts that ended before a distance, folding them into the base count
+export function pruneLaneShifts(layout: LaneLayout, distance: number) {
+  while (layout.shifts.length > 0 && layout.shifts[0].end < distance) {
+    layout.count = layout.shifts.shift()!.to
+  }
+}
@@ -0,0 +1,201 @@
+import {
+  JUMP_FORCE,
+  GRAVITY,
+  GROUND_Y,
+  SLIDE_TICKS,
+  PLAYER_SIZE,
+  SLIDE_HEIGHT,
+  LANE_WIDTH,
+  MAX_LANES
+} from './constants'
+import { laneX } from './lanes'
+import type { InputAction, Obstacle, ObstacleType, PlayerState } from './types'
+
+// Player movement and collision rules, shared by the simulation and the chunk validator
+
+export function applyInput(player: PlayerState, action: InputAction) {
+  switch (action) {
+    case 'moveLeft':
+      player.lane = Math.max(0, player.lane - 1)
+      break
+    case 'moveRight':
+      player.lane = Math.min(player.laneCount - 1, player.lane + 1)
+      break
+    case 'jump':
+      if (!player.isJumping && player.y <= 0.6) {
+        player.isJumping = true
+        player.velocityY = JUMP_FORCE
+        player.slideTicks = 0
+      }
+      break
+    case 'slide':
+      // Sliding in mid-air slams the player back down
+      if (player.isJumping) {
+        player.velocityY = Math.min(player.velocityY, -JUMP_FORCE)
+      }
+      player.slideTicks = SLIDE_TICKS
+      break
+  }
+}
+
+export function stepPlayer(player: PlayerState) {
+  player.slideTicks = Math.max(0, player.slideTicks - 1)
+  player.velocityY -= GRAVITY
+  player.y += player.velocityY
+  if (player.y <= GROUND_Y) {
+    player.y = GROUND_Y
+    player.velocityY = 0
+    player.isJumping = false
+  }
+}
+
+// Players in the same lane with the same height, velocity and slide have identical futures,
+// so searches ahead only need to follow one of them
+export function playerStateKey(player: PlayerState) {
+  const y = Math.round(player.y * 1000)
+  const velocity = Math.round(player.velocityY * 1000) + 1000
+  return ((y * 2000 + velocity) * 64 + player.slideTicks) * MAX_LANES + player.lane
+}
+
+// Vertical extent of the player's hitbox. Sliding keeps the feet planted and lowers the top.
+export function playerBounds(player: PlayerState) {
+  const bottom = player.y - PLAYER_SIZE / 2
+  const height = player.slideTicks > 0 ? SLIDE_HEIGHT : PLAYER_SIZE
+  return { bottom, top: bottom + height }
+}
+
+// Collision shapes, matching the obstacle meshes. `y` is the height of the shape's center.
+export type Hitbox =
+  // A spinning octahedron sweeps out a double cone, so that is what the crystal is
+  | { shape: 'doubleCone', y: number, radius: number }
+  // The spike is an upside-down four-sided cone spinning about its axis, so it fills a
+  // round cone with its point at the bottom
+  | { shape: 'cone', y: number, radius: number, height: number }
+  // The ring faces the player and only spins in its own plane; the hole is open
+  | { shape: 'torus', y: number, radius: number, tube: number }
+  // The barrier is a beam with a force field above it, solid right up to the top, and the
+  // laser gate a beam low across the lane
+  | { shape: 'box', y: number, size: [number, number, number] }
+
+export const OBSTACLE_HITBOXES: Record<ObstacleType, Hitbox> = {
+  crystal: { shape: 'doubleCone', y: 0.8, radius: 0.8 },
+  spike: { shape: 'cone', y: 0.8, radius: 0.5, height: 1.5 },
+  ring: { shape: 'torus', y: 1.5, radius: 1.15, tube: 0.08 },
+  barrier: { shape: 'box', y: 2.325, size: [2.2, 3.35, 0.3] },
+  laser: { shape: 'box', y: 0.35, size: [2.2, 0.3, 0.2] }
+}
+
+function hitboxDepth(hitbox: Hitbox) {
+  switch (hitbox.shape) {
+    case 'doubleCone':
+    case 'cone':
+      return hitbox.radius
+    case 'torus':
+      return hitbox.tube
+    case 'box':
+      return hitbox.size[2] / 2
+  }
+}
+
+// Distance along z either side of the player within which an obstacle can touch it
+export function hitReach(type: ObstacleType) {
+  return hitboxDepth(OBSTACLE_HITBOXES[type]) + PLAYER_SIZE / 2
+}
+
+// Distance from a value to a range, or 0 inside it
+function gap(min: number, max: number, value: number) {
+  return Math.max(min - value, 0, value - max)
+}
+
+interface Box {
+  x: [number, number]
+  y: [number, number]
+  z: [number, number]
+}
+
+// Whether a box overlaps a hitbox centered at (x, y, z)
+function overlaps(box: Box, hitbox: Hitbox, x: number, y: number, z: number) {
+  const gapX = gap(box.x[0], box.x[1], x)
+  const gapY = gap(box.y[0], box.y[1], y)
+  const gapZ = gap(box.z[0], box.z[1], z)
+  switch (hitbox.shape) {
+    case 'doubleCone':
+      return gapY + Math.hypot(gapX, gapZ) < hitbox.radius
+    case 'cone': {
+      // Widest part of the cone the box reaches, which is as high up as it goes
+      const apex = y - hitbox.height / 2
+      const top = Math.min(box.y[1], y + hitbox.height / 2)
+      if (top <= Math.max(box.y[0], apex)) return false
+      return Math.hypot(gapX, gapZ) < (hitbox.radius * (top - apex)) / hitbox.height
+    }
+    case 'torus': {
+      // Nearest and furthest the box's face gets from the ring's center
+      const near = Math.hypot(gapX, gapY)
+      const far = Math.hypot(
+        Math.max(Math.abs(box.x[0] - x), Math.abs(box.x[1] - x)),
+        Math.max(Math.abs(box.y[0] - y), Math.abs(box.y[1] - y))
+      )
+      const fromTube = Math.max(near - hitbox.radius, 0, hitbox.radius - far)
+      return Math.hypot(fromTube, gapZ) < hitbox.tube
+    }
+    case 'box':
+      return gapX < hitbox.size[0] / 2 && gapY < hitbox.size[1] / 2 && gapZ < hitbox.size[2] / 2
+  }
+}
+
+function playerBox(player: PlayerState, y: number): Box {
+  const x = laneX(player.lane, player.laneCount)
+  const { bottom, top } = playerBounds({ ...player, y })
+  const half = PLAYER_SIZE / 2
+  return { x: [x - half, x + half], y: [bottom, top], z: [-half, half] }
+}
+
+// Whether the player is inside a ring's hole rather than clearing it over the top
+export function isInRingHole(player: PlayerState, obs: Pick<Obstacle, 'x' | 'lift'>) {
+  const ring = OBSTACLE_HITBOXES.ring as Extract<Hitbox, { shape: 'torus' }>
+  const box = playerBox(player, player.y)
+  const y = ring.y + obs.lift
+  const far = Math.hypot(
+    Math.max(Math.abs(box.x[0] - obs.x), Math.abs(box.x[1] - obs.x)),
+    Math.max(Math.abs(box.y[0] - y), Math.abs(box.y[1] - y))
+  )
+  return far <= ring.radius - ring.tube
+}
+
+// Movement over the tick being checked: how far the obstacle came and where the player
+// started. Checking in steps no longer than SWEEP_STEP means nothing can pass straight
+// through the player between ticks, however fast the track moves.
+export interface Sweep {
+  travelled: number
+  fromY: number
+}
+
+const SWEEP_STEP = 0.1
+
+// The parts of an obstacle collision cares about: where its behavior has put it this tick
+export type ObstacleBody = Pick<Obstacle, 'type' | 'x' | 'lift' | 'z' | 'solid'>
+
+// Swept collision between the player and an obstacle over one tick. Only the track moves
+// within the tick; the obstacle's own motion is small enough to take at its end position.
+export function isColliding(
+  player: PlayerState,
+  obs: ObstacleBody,
+  sweep: Sweep = { travelled: 0, fromY: player.y }
+) {
+  if (!obs.solid) return false
+  const reach = hitReach(obs.type)
+  if (obs.z - sweep.travelled >= reach || obs.z <= -reach) return false
+  // Compare positions rather than lane indices, since lane counts can differ
+  if (Math.abs(laneX(player.lane, player.laneCount) - obs.x) >= LANE_WIDTH / 2) return false
+
+  const hitbox = OBSTACLE_HITBOXES[obs.type]
+  const y = hitbox.y + obs.lift
+  const steps = Math.max(1, Math.ceil(sweep.travelled / SWEEP_STEP))
+  for (let step = 1; step <= steps; step++) {
+    const t = step / steps
+    const z = obs.z - sweep.travelled * (1 - t)
+    const box = playerBox(player, sweep.fromY + (player.y - sweep.fromY) * t)
+    if (overlaps(box, hitbox, obs.x, y, z)) return true
+  }
+  return false
+}
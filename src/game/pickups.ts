@@ -0,0 +1,105 @@
+import {
+  SPAWN_Z,
+  DESPAWN_Z,
+  SHARD_TRAIL_LENGTH,
+  SHARD_SPACING,
+  SHARD_SCORE,
+  MAGNET_RANGE,
+  POWER_UP_TICKS
+} from './constants'
+import { laneX } from './lanes'
+import { pick, randomInt, type Rng } from './rng'
+import type { ActiveEffects, Obstacle, Pickup, PlayerState, PowerUpType } from './types'
+
+const POWER_UPS: PowerUpType[] = ['shield', 'magnet', 'slowmo']
+const POWER_UP_CHANCE = 0.2
+const PICKUP_HEIGHT = 0.8
+const MAGNET_PULL = 0.2
+
+// Pickups stay clear of obstacles by this much so grabbing one is never a trap
+const CLEARANCE = 3
+
+export function createEffects(): ActiveEffects {
+  return { shield: 0, magnet: 0, slowmo: 0 }
+}
+
+// Spawn a shard trail or a single power-up in a lane with no obstacles nearby.
+// Returns the new pickups, or none if every lane is blocked.
+export function spawnPickups(
+  rng: Rng,
+  obstacles: Obstacle[],
+  laneCount: number,
+  nextId: () => number
+): Pickup[] {
+  const powerUp = rng() < POWER_UP_CHANCE ? pick(rng, POWER_UPS) : null
+  const span = powerUp ? 0 : (SHARD_TRAIL_LENGTH - 1) * SHARD_SPACING
+  const start = randomInt(rng, laneCount)
+
+  for (let i = 0; i < laneCount; i++) {
+    const lane = (start + i) % laneCount
+    // A lane-switching crystal blocks the lane it is moving into as well as its own
+    const blocked = obstacles.some(obs =>
+      [obs.lane, obs.motion.toLane].some(blockedLane => laneX(blockedLane, obs.laneCount) === laneX(lane, laneCount)) &&
+      obs.z < SPAWN_Z + CLEARANCE &&
+      obs.z > SPAWN_Z - span - CLEARANCE
+    )
+    if (blocked) continue
+
+    const count = powerUp ? 1 : SHARD_TRAIL_LENGTH
+    return Array.from({ length: count }, (_, index) => ({
+      id: nextId(),
+      type: powerUp ?? 'shard',
+      lane,
+      x: laneX(lane, laneCount),
+      y: PICKUP_HEIGHT,
+      z: SPAWN_Z - index * SHARD_SPACING
+    }))
+  }
+  return []
+}
+
+// Move pickups, apply the magnet and collect anything the player touches.
+// Returns the pickups collected this tick.
+export function updatePickups(
+  pickups: Pickup[],
+  player: PlayerState,
+  effects: ActiveEffects,
+  speed: number
+) {
+  const playerX = laneX(player.lane, player.laneCount)
+  const collected: Pickup[] = []
+
+  for (const pickup of pickups) {
+    pickup.z += speed
+
+    if (effects.magnet > 0 && pickup.type === 'shard' && pickup.z > -MAGNET_RANGE && pickup.z < 1) {
+      pickup.x += (playerX - pickup.x) * MAGNET_PULL
+      pickup.y += (player.y - pickup.y) * MAGNET_PULL
+    }
+
+    const touching =
+      Math.abs(pickup.z) < 1 &&
+      Math.abs(pickup.x - playerX) < 1 &&
+      Math.abs(pickup.y - player.y) < 1.2
+    if (touching) collected.push(pickup)
+  }
+
+  return collected
+}
+
+export function isPickupGone(pickup: Pickup) {
+  return pickup.z >= DESPAWN_Z
+}
+
+// Apply a collected pickup; returns the score it is worth
+export function collectPickup(pickup: Pickup, effects: ActiveEffects) {
+  if (pickup.type === 'shard') return SHARD_SCORE
+  effects[pickup.type] = POWER_UP_TICKS[pickup.type]
+  return 0
+}
+
+export function tickEffects(effects: ActiveEffects) {
+  for (const type of POWER_UPS) {
+    effects[type] = Math.max(0, effects[type] - 1)
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { createReplay, decodeReplay, encodeReplay } from './replay'
+import { createSimulation, queueInput, stepSimulation } from './simulation'
+import type { InputAction, Replay } from './types'
+
+const ACTIONS: InputAction[] = ['moveLeft', 'jump', 'moveRight', 'slide']
+
+function recordRun(seed: number, beatSync = false) {
+  const sim = createSimulation({ seed, beatSync })
+  while (!sim.gameOver && sim.tick < 20000) {
+    if (sim.tick % 29 === 0) queueInput(sim, ACTIONS[(sim.tick / 29) % ACTIONS.length])
+    stepSimulation(sim)
+  }
+  return createReplay(sim)
+}
+
+function playBack(replay: Replay) {
+  const sim = createSimulation({ seed: replay.seed, playback: replay.inputs, beatSync: replay.beatSync })
+  while (!sim.gameOver && sim.tick < 20000) stepSimulation(sim)
+  return sim
+}
+
+// Re-encode a valid code with some of its fields replaced
+function tamper(code: string, changes: Record<string, unknown>) {
+  return btoa(JSON.stringify({ ...JSON.parse(atob(code)), ...changes }))
+}
+
+describe('replays', () => {
+  it('round-trips through a replay code', () => {
+    const replay = recordRun(42)
+    expect(replay.inputs.length).toBeGreaterThan(0)
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay)
+    expect(decodeReplay(encodeReplay({ ...replay, beatSync: true })).beatSync).toBe(true)
+  })
+
+  it('reproduces the recorded run', () => {
+    for (const beatSync of [false, true]) {
+      const replay = recordRun(1234, beatSync)
+      const sim = playBack(decodeReplay(encodeReplay(replay)))
+      expect(sim.tick).toBe(replay.finalTick)
+      expect(sim.score).toBe(replay.score)
+      expect(sim.inputLog).toEqual(replay.inputs)
+    }
+  })
+
+  it('rejects codes that are not replays', () => {
+    expect(() => decodeReplay('not a replay')).toThrow('Invalid replay')
+    expect(() => decodeReplay(btoa('null'))).toThrow('Invalid replay')
+  })
+
+  it('rejects codes from another version', () => {
+    const code = encodeReplay(recordRun(42))
+    expect(() => decodeReplay(tamper(code, { v: 1 }))).toThrow('unsupported version')
+  })
+
+  it('rejects corrupted or cut-off inputs', () => {
+    const code = encodeReplay(recordRun(42))
+    expect(() => decodeReplay(tamper(code, { i: '12L0J4' }))).toThrow('malformed inputs')
+    expect(() => decodeReplay(tamper(code, { i: '12L?0J' }))).toThrow('malformed inputs')
+    expect(() => decodeReplay(tamper(code, { i: '12L0X' }))).toThrow('unknown action')
+  })
+})
@@ -0,0 +1,106 @@
+import type { InputAction, Replay, TimedInput } from './types'
+import type { Simulation } from './simulation'
+
+// Bump whenever simulation rules change, since old inputs will no longer reproduce the run
+const REPLAY_VERSION = 7
+
+// One character per action keeps shared codes short
+const ACTION_CODES: Record<InputAction, string> = {
+  moveLeft: 'L',
+  moveRight: 'R',
+  jump: 'J',
+  slide: 'S'
+}
+const CODE_ACTIONS = Object.fromEntries(
+  Object.entries(ACTION_CODES).map(([action, code]) => [code, action as InputAction])
+)
+
+interface EncodedReplay {
+  v: number
+  s: number
+  t: number
+  p: number
+  // Beat-synced spawning, omitted when off
+  b?: 1
+  // Tick deltas followed by an action code, e.g. "12L0J40R"
+  i: string
+}
+
+export function createReplay(sim: Simulation): Replay {
+  return {
+    seed: sim.seed,
+    beatSync: sim.beatSync,
+    inputs: sim.inputLog.map(input => ({ ...input })),
+    finalTick: sim.tick,
+    score: sim.score
+  }
+}
+
+function encodeInputs(inputs: TimedInput[]) {
+  let lastTick = 0
+  return inputs
+    .map(({ tick, action }) => {
+      const delta = tick - lastTick
+      lastTick = tick
+      return `${delta}${ACTION_CODES[action]}`
+    })
+    .join('')
+}
+
+// The whole string has to be well-formed, so a corrupted or cut-off code is rejected rather
+// than quietly decoding into a different run
+function decodeInputs(encoded: string): TimedInput[] {
+  if (!/^(\d+[A-Z])*$/.test(encoded)) throw new Error('Invalid replay: malformed inputs')
+  const inputs: TimedInput[] = []
+  let tick = 0
+  for (const [, delta, code] of encoded.matchAll(/(\d+)([A-Z])/g)) {
+    const action = CODE_ACTIONS[code]
+    if (!action) throw new Error(`Invalid replay: unknown action "${code}"`)
+    tick += Number(delta)
+    inputs.push({ tick, action })
+  }
+  return inputs
+}
+
+// Serialize to a base64 string that is safe to paste into chat
+export function encodeReplay(replay: Replay) {
+  const payload: EncodedReplay = {
+    v: REPLAY_VERSION,
+    s: replay.seed,
+    t: replay.finalTick,
+    p: replay.score,
+    i: encodeInputs(replay.inputs),
+    ...(replay.beatSync ? { b: 1 as const } : {})
+  }
+  return btoa(JSON.stringify(payload))
+}
+
+export function decodeReplay(code: string): Replay {
+  let payload: EncodedReplay
+  try {
+    payload = JSON.parse(atob(code.trim()))
+  } catch {
+    throw new Error('Invalid replay: not a replay code')
+  }
+
+  if (typeof payload !== 'object' || payload === null) {
+    throw new Error('Invalid replay: not a replay code')
+  }
+  if (payload.v !== REPLAY_VERSION) {
+    throw new Error(`Invalid replay: unsupported version ${payload.v}`)
+  }
+  if (!Number.isInteger(payload.s) || typeof payload.i !== 'string') {
+    throw new Error('Invalid replay: missing seed or inputs')
+  }
+  if (!Number.isInteger(payload.t) || payload.t < 0 || !Number.isInteger(payload.p)) {
+    throw new Error('Invalid replay: missing final tick or score')
+  }
+
+  return {
+    seed: payload.s >>> 0,
+    beatSync: payload.b === 1,
+    inputs: decodeInputs(payload.i),
+    finalTick: payload.t,
+    score: payload.p
+  }
+}
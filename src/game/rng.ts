@@ -0,0 +1,36 @@
+// Seedable PRNG (mulberry32). Small, fast and fully deterministic for a given seed.
+export type Rng = () => number
+
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296) >>> 0
+}
+
+export function randomInt(rng: Rng, maxExclusive: number) {
+  return Math.floor(rng() * maxExclusive)
+}
+
+export function pick<T>(rng: Rng, items: readonly T[]): T {
+  return items[randomInt(rng, items.length)]
+}
+
+export function weightedPick<T extends string>(rng: Rng, weights: Record<T, number>): T {
+  const entries = Object.entries(weights) as [T, number][]
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0)
+  let roll = rng() * total
+  for (const [item, weight] of entries) {
+    roll -= weight
+    if (roll < 0) return item
+  }
+  return entries[entries.length - 1][0]
+}
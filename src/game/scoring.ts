@@ -0,0 +1,34 @@
+import { COMBO_STEP, COMBO_TICKS, MAX_COMBO_MULTIPLIER } from './constants'
+import type { ComboState } from './types'
+
+// Combo multiplier rules. Each function returns whether the multiplier changed,
+// so the simulation knows when to tell listeners.
+
+export function createCombo(): ComboState {
+  return { clears: 0, multiplier: 1, ticksLeft: 0 }
+}
+
+// Count a clean clear and restart the timeout
+export function extendCombo(combo: ComboState) {
+  combo.clears++
+  combo.ticksLeft = COMBO_TICKS
+  const multiplier = Math.min(MAX_COMBO_MULTIPLIER, 1 + Math.floor(combo.clears / COMBO_STEP))
+  const changed = multiplier !== combo.multiplier
+  combo.multiplier = multiplier
+  return changed
+}
+
+export function breakCombo(combo: ComboState) {
+  const changed = combo.multiplier !== 1
+  combo.clears = 0
+  combo.multiplier = 1
+  combo.ticksLeft = 0
+  return changed
+}
+
+// The combo breaks when the timeout runs out
+export function tickCombo(combo: ComboState) {
+  if (combo.ticksLeft === 0) return false
+  combo.ticksLeft--
+  return combo.ticksLeft === 0 && breakCombo(combo)
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { TICK_MS } from './constants'
+import { advanceSimulation, createSimulation, queueInput, stepSimulation, type Simulation } from './simulation'
+import type { InputAction } from './types'
+
+const ACTIONS: InputAction[] = ['moveLeft', 'moveRight', 'jump', 'slide']
+const MAX_TICKS = 20000
+
+// Queue the same inputs by tick whatever drives the simulation, so runs can be compared
+function scriptedInput(sim: Simulation) {
+  if (sim.tick % 37 === 0) queueInput(sim, ACTIONS[(sim.tick / 37) % ACTIONS.length])
+}
+
+function runStepped(seed: number) {
+  const sim = createSimulation({ seed })
+  while (!sim.gameOver && sim.tick < MAX_TICKS) {
+    scriptedInput(sim)
+    stepSimulation(sim)
+  }
+  return sim
+}
+
+function runAtFrameRate(seed: number, frameMs: number) {
+  const sim = createSimulation({ seed })
+  while (!sim.gameOver && sim.tick < MAX_TICKS) advanceSimulation(sim, frameMs, scriptedInput)
+  return sim
+}
+
+function summary(sim: Simulation) {
+  return {
+    tick: sim.tick,
+    score: sim.score,
+    distance: sim.distance,
+    killedBy: sim.killedBy,
+    player: sim.player,
+    inputLog: sim.inputLog
+  }
+}
+
+describe('simulation', () => {
+  it('plays the same run for the same seed and inputs', () => {
+    const first = runStepped(42)
+    const second = runStepped(42)
+    expect(first.gameOver).toBe(true)
+    expect(summary(second)).toEqual(summary(first))
+  })
+
+  it('lays out a different track for a different seed', () => {
+    const layout = (seed: number) => {
+      const sim = createSimulation({ seed })
+      while (sim.tick < 300) stepSimulation(sim)
+      return sim.obstacles.map(({ lane, type, z }) => ({ lane, type, z }))
+    }
+    expect(layout(42).length).toBeGreaterThan(0)
+    expect(layout(7)).not.toEqual(layout(42))
+  })
+
+  it('plays the same run at any frame rate', () => {
+    const stepped = summary(runStepped(42))
+    for (const fps of [30, 60, 144]) {
+      expect(summary(runAtFrameRate(42, 1000 / fps))).toEqual(stepped)
+    }
+  })
+
+  it('caps catch-up after a long stall', () => {
+    const sim = createSimulation({ seed: 42 })
+    expect(advanceSimulation(sim, 10000)).toBeLessThanOrEqual(5)
+    expect(sim.accumulator).toBeLessThan(TICK_MS)
+  })
+})
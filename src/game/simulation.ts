@@ -0,0 +1,493 @@
+import {
+  TICK_MS,
+  MAX_TICKS_PER_ADVANCE,
+  GROUND_Y,
+  SPAWN_Z,
+  DESPAWN_Z,
+  SLIDE_TICKS,
+  TICKS_PER_BEAT,
+  PICKUP_SPAWN_GAP,
+  SHARD_TRAIL_LENGTH,
+  SHARD_SPACING,
+  SLOWMO_FACTOR,
+  LANE_WIDTH,
+  DISTANCE_SCORE,
+  RING_BONUS,
+  NEAR_MISS_BONUS,
+  NEAR_MISS_TICKS,
+  BONUS_DISPLAY_TICKS,
+  START_LANES,
+  LANE_SHIFT_INTERVAL
+} from './constants'
+import { applyInput, stepPlayer, hitReach, isColliding, isInRingHole } from './physics'
+import {
+  createEffects,
+  spawnPickups,
+  updatePickups,
+  collectPickup,
+  isPickupGone,
+  tickEffects
+} from './pickups'
+import { breakCombo, createCombo, extendCombo, tickCombo } from './scoring'
+import { spawnBehavior, stillMotion, updateBehavior, type SpawnContext } from './behaviors'
+import { createRng, randomInt, weightedPick, randomSeed, type Rng } from './rng'
+import { getChunkLibrary, chunkLength, selectChunk, type ChunkLibrary } from './chunks'
+import { courseCurve, type Course } from './course'
+import {
+  createLaneLayout,
+  isInLaneShift,
+  laneCountAt,
+  laneX,
+  planLaneShift,
+  pruneLaneShifts,
+  remapLane
+} from './lanes'
+import {
+  DIFFICULTY_CURVE,
+  sampleDifficulty,
+  type DifficultyCurve,
+  type DifficultyState
+} from './difficulty'
+import type {
+  ActiveEffects,
+  BonusType,
+  ComboState,
+  GameEvent,
+  InputAction,
+  LaneLayout,
+  Obstacle,
+  ObstacleType,
+  Pickup,
+  PlayerState,
+  ScoreBonus,
+  SimulationSnapshot,
+  TimedInput
+} from './types'
+
+// Headless game state. Stepped at a fixed rate, independent of the display refresh rate.
+export interface Simulation {
+  seed: number
+  random: Rng
+  tick: number
+  score: number
+  // Fraction of a point carried between ticks, since distance points aren't whole
+  scoreRemainder: number
+  distance: number
+  gameOver: boolean
+  killedBy: ObstacleType | null
+  // Hand-built course being played, or null on the endless track
+  course: Course | null
+  // Next of the course's obstacles to spawn
+  courseIndex: number
+  // Reached the course's finish line rather than crashing
+  finished: boolean
+  // Tick of the last hit, whether a shield took it or not, for the camera to shake on
+  hitTick: number | null
+  curve: DifficultyCurve
+  chunks: ChunkLibrary
+  difficulty: DifficultyState
+  lanes: LaneLayout
+  distanceUntilLaneShift: number
+  player: PlayerState
+  obstacles: Obstacle[]
+  nextObstacleId: number
+  distanceUntilSpawn: number
+  pickups: Pickup[]
+  nextPickupId: number
+  distanceUntilPickup: number
+  effects: ActiveEffects
+  combo: ComboState
+  // Recent bonuses, for score popups
+  bonuses: ScoreBonus[]
+  nextBonusId: number
+  // Lane the player last moved out of, and when, for spotting near misses
+  laneLeft: { x: number, tick: number } | null
+  pendingInputs: InputAction[]
+  // Every input applied so far, for recording
+  inputLog: TimedInput[]
+  // Scripted inputs that replace live input during replay playback
+  playback: TimedInput[] | null
+  playbackIndex: number
+  // Delay spawns so obstacles reach the player on a music beat
+  beatSync: boolean
+  // Tick the pending beat-synced spawn is scheduled for
+  beatSpawnTick: number | null
+  // Events since the last drainEvents call
+  events: GameEvent[]
+  accumulator: number
+}
+
+export interface SimulationOptions {
+  seed?: number
+  playback?: TimedInput[]
+  curve?: DifficultyCurve
+  chunks?: ChunkLibrary
+  beatSync?: boolean
+  // Play a course at its own speed instead of the endless track's curve
+  course?: Course
+}
+
+export function createSimulation({
+  seed = randomSeed(),
+  playback,
+  curve = DIFFICULTY_CURVE,
+  chunks = getChunkLibrary,
+  beatSync = false,
+  course
+}: SimulationOptions = {}): Simulation {
+  if (course) curve = courseCurve(course)
+  const laneCount = course?.laneCount ?? START_LANES
+  return {
+    seed,
+    random: createRng(seed),
+    tick: 0,
+    score: 0,
+    scoreRemainder: 0,
+    distance: 0,
+    gameOver: false,
+    killedBy: null,
+    course: course ?? null,
+    courseIndex: 0,
+    finished: false,
+    hitTick: null,
+    curve,
+    chunks,
+    difficulty: sampleDifficulty(curve, 0),
+    lanes: createLaneLayout(laneCount),
+    distanceUntilLaneShift: LANE_SHIFT_INTERVAL,
+    player: { lane: Math.floor((laneCount - 1) / 2), laneCount, y: GROUND_Y, velocityY: 0, isJumping: false, slideTicks: 0 },
+    obstacles: [],
+    nextObstacleId: 0,
+    distanceUntilSpawn: 0,
+    pickups: [],
+    nextPickupId: 0,
+    distanceUntilPickup: PICKUP_SPAWN_GAP,
+    effects: createEffects(),
+    combo: createCombo(),
+    bonuses: [],
+    nextBonusId: 0,
+    laneLeft: null,
+    pendingInputs: [],
+    inputLog: [],
+    playback: playback ?? null,
+    playbackIndex: 0,
+    beatSync,
+    beatSpawnTick: null,
+    events: [],
+    accumulator: 0
+  }
+}
+
+// Inputs are buffered and applied at the start of the next tick
+export function queueInput(sim: Simulation, action: InputAction) {
+  if (sim.playback) return
+  sim.pendingInputs.push(action)
+}
+
+function takeScriptedInputs(sim: Simulation, playback: TimedInput[]) {
+  while (sim.playbackIndex < playback.length && playback[sim.playbackIndex].tick <= sim.tick) {
+    sim.pendingInputs.push(playback[sim.playbackIndex++].action)
+  }
+}
+
+// Track distance at the spawn point
+function spawnDistance(sim: Simulation) {
+  return sim.distance - SPAWN_Z
+}
+
+function spawnObstacle(sim: Simulation, lane: number, laneCount: number, z: number, type: ObstacleType, context: Omit<SpawnContext, 'random'>) {
+  const obs: Obstacle = {
+    id: sim.nextObstacleId++,
+    lane,
+    laneCount,
+    z,
+    type,
+    rotation: sim.random() * Math.PI * 2,
+    x: laneX(lane, laneCount),
+    lift: 0,
+    solid: true,
+    warning: null,
+    motion: stillMotion(lane)
+  }
+  spawnBehavior(obs, { random: sim.random, ...context })
+  sim.obstacles.push(obs)
+}
+
+// Spawn the next chunk and return the distance it occupies
+function spawnChunk(sim: Simulation) {
+  const laneCount = laneCountAt(sim.lanes, spawnDistance(sim))
+  const chunk = selectChunk(sim.random, sim.chunks(laneCount), sim.difficulty.chunkLevel, laneCount)
+  for (const entry of chunk.obstacles) {
+    const lane = entry.lane ?? randomInt(sim.random, laneCount)
+    const type = entry.type ?? weightedPick(sim.random, sim.difficulty.weights)
+    const level = sim.difficulty.chunkLevel
+    spawnObstacle(sim, lane, laneCount, SPAWN_Z - entry.offset, type, { level, anyLane: entry.lane === undefined })
+  }
+  return chunkLength(chunk)
+}
+
+// Spawn every course obstacle that has come into view. Course obstacles stay where they
+// were placed; only laser gates keep pulsing.
+function spawnCourse(sim: Simulation, course: Course) {
+  const front = spawnDistance(sim)
+  while (sim.courseIndex < course.obstacles.length && course.obstacles[sim.courseIndex].distance <= front) {
+    const { distance, lane, type } = course.obstacles[sim.courseIndex++]
+    spawnObstacle(sim, lane, course.laneCount, sim.distance - distance, type, { level: 1, anyLane: false })
+  }
+}
+
+// Start merging or splitting lanes at the spawn point and return the distance it occupies
+function spawnLaneShift(sim: Simulation) {
+  sim.distanceUntilLaneShift = LANE_SHIFT_INTERVAL * (1 + sim.random() * 0.5)
+  return planLaneShift(sim.random, sim.lanes, spawnDistance(sim))
+}
+
+// Ticks for something spawned now to reach the player, following the speed curve.
+// Slow-mo can't be predicted, so beat-synced arrivals drift while it is active.
+function ticksToPlayer(curve: DifficultyCurve, distance: number) {
+  let ticks = 0
+  for (let covered = 0; covered < -SPAWN_Z; ticks++) {
+    const { speed } = sampleDifficulty(curve, distance)
+    covered += speed
+    distance += speed
+  }
+  return ticks
+}
+
+// With beat sync on, a due spawn waits until its first obstacle will reach the player on a beat
+function readyToSpawn(sim: Simulation) {
+  if (!sim.beatSync) return true
+  if (sim.beatSpawnTick === null) {
+    const arrival = sim.tick + ticksToPlayer(sim.curve, sim.distance) - 1
+    sim.beatSpawnTick = sim.tick + ((TICKS_PER_BEAT - (arrival % TICKS_PER_BEAT)) % TICKS_PER_BEAT)
+  }
+  return sim.tick >= sim.beatSpawnTick
+}
+
+// Drop matching items without allocating a new array, so a tick creates no garbage
+// for the renderer to wait on
+function removeWhere<T>(items: T[], remove: (item: T) => boolean) {
+  let kept = 0
+  for (const item of items) {
+    if (!remove(item)) items[kept++] = item
+  }
+  items.length = kept
+}
+
+function emit(sim: Simulation, event: GameEvent) {
+  sim.events.push(event)
+}
+
+// Add points scaled by the combo multiplier
+function addPoints(sim: Simulation, points: number) {
+  const total = sim.scoreRemainder + points * sim.combo.multiplier
+  const whole = Math.floor(total)
+  sim.score += whole
+  sim.scoreRemainder = total - whole
+}
+
+function awardBonus(sim: Simulation, type: BonusType, points: number, x: number) {
+  const awarded = points * sim.combo.multiplier
+  sim.score += awarded
+  sim.bonuses.push({ id: sim.nextBonusId++, tick: sim.tick, type, points: awarded, x })
+  emit(sim, { tick: sim.tick, type: 'bonus', bonus: type, points: awarded })
+}
+
+function comboChanged(sim: Simulation) {
+  emit(sim, { tick: sim.tick, type: 'combo', multiplier: sim.combo.multiplier })
+}
+
+// A clean clear feeds the combo
+function countClear(sim: Simulation) {
+  if (extendCombo(sim.combo)) comboChanged(sim)
+}
+
+// Distance the track moves per tick; slow-mo scales the world, not the curve
+export function currentSpeed(sim: Simulation) {
+  return sim.difficulty.speed * (sim.effects.slowmo > 0 ? SLOWMO_FACTOR : 1)
+}
+
+// Spawn the endless track ahead of the player
+function spawnTrack(sim: Simulation, speed: number) {
+  // Obstacles, or a lane shift once one is due. Shifts take the place of a chunk, so no
+  // obstacles ever stand where the lanes are moving.
+  sim.distanceUntilSpawn -= speed
+  sim.distanceUntilLaneShift -= speed
+  if (sim.distanceUntilSpawn <= 0 && readyToSpawn(sim)) {
+    sim.beatSpawnTick = null
+    const length = sim.distanceUntilLaneShift <= 0 ? spawnLaneShift(sim) : spawnChunk(sim)
+    sim.distanceUntilSpawn += length + sim.difficulty.spawnGap
+  }
+
+  // Pickups after obstacles so they can avoid them, skipping any that would overlap a shift
+  sim.distanceUntilPickup -= speed
+  if (sim.distanceUntilPickup <= 0) {
+    const front = spawnDistance(sim)
+    const span = (SHARD_TRAIL_LENGTH - 1) * SHARD_SPACING
+    if (!isInLaneShift(sim.lanes, front - 1, front + span + 1)) {
+      const pickupLanes = laneCountAt(sim.lanes, front)
+      sim.pickups.push(...spawnPickups(sim.random, sim.obstacles, pickupLanes, () => sim.nextPickupId++))
+    }
+    sim.distanceUntilPickup += PICKUP_SPAWN_GAP
+  }
+}
+
+// Advance the simulation by exactly one tick
+export function stepSimulation(sim: Simulation) {
+  if (sim.gameOver) return
+
+  const { player } = sim
+  if (sim.playback) {
+    takeScriptedInputs(sim, sim.playback)
+  }
+  for (const action of sim.pendingInputs) {
+    const { lane, isJumping } = player
+    applyInput(player, action)
+    sim.inputLog.push({ tick: sim.tick, action })
+
+    if (player.lane !== lane) {
+      sim.laneLeft = { x: laneX(lane, player.laneCount), tick: sim.tick }
+      emit(sim, { tick: sim.tick, type: 'laneChange', lane: player.lane })
+    }
+    if (player.isJumping && !isJumping) emit(sim, { tick: sim.tick, type: 'jump' })
+    if (player.slideTicks === SLIDE_TICKS) emit(sim, { tick: sim.tick, type: 'slide' })
+  }
+  sim.pendingInputs.length = 0
+
+  sim.tick++
+
+  // Difficulty ramps with distance travelled
+  sim.difficulty = sampleDifficulty(sim.curve, sim.distance)
+  const speed = currentSpeed(sim)
+  sim.distance += speed
+  addPoints(sim, speed * DISTANCE_SCORE)
+  tickEffects(sim.effects)
+  if (tickCombo(sim.combo)) comboChanged(sim)
+  removeWhere(sim.bonuses, bonus => sim.tick - bonus.tick >= BONUS_DISPLAY_TICKS)
+
+  // Crossing the middle of a lane shift moves the player to the nearest lane of the new layout
+  const laneCount = laneCountAt(sim.lanes, sim.distance)
+  if (laneCount !== player.laneCount) {
+    player.lane = remapLane(player.lane, player.laneCount, laneCount)
+    player.laneCount = laneCount
+  }
+  pruneLaneShifts(sim.lanes, sim.distance - DESPAWN_Z)
+
+  // Courses are laid out by hand, with no lane shifts or pickups to change them
+  if (sim.course) spawnCourse(sim, sim.course)
+  else spawnTrack(sim, speed)
+
+  // Move obstacles and let their behaviors act, noting any in the player's lane that leave
+  // the collision window without a hit, and near misses: obstacles slipping past in the
+  // lane the player has only just dodged out of
+  const playerX = laneX(player.lane, player.laneCount)
+  const { laneLeft } = sim
+  const dodging = laneLeft !== null && sim.tick - laneLeft.tick <= NEAR_MISS_TICKS
+  for (const obs of sim.obstacles) {
+    const reach = hitReach(obs.type)
+    const wasAhead = obs.z < 0
+    const wasHittable = obs.z < reach
+    obs.z += speed
+    updateBehavior(obs, sim.tick)
+    const obsX = obs.x
+    const lanesAway = Math.round(Math.abs(obsX - playerX) / LANE_WIDTH)
+    if (wasAhead && obs.z >= 0 && lanesAway === 1 && dodging && Math.abs(obsX - laneLeft.x) < 1) {
+      emit(sim, { tick: sim.tick, type: 'nearMiss', obstacle: obs.type })
+      countClear(sim)
+      awardBonus(sim, 'nearMiss', NEAR_MISS_BONUS, obsX)
+    }
+    if (wasHittable && obs.z >= reach && lanesAway === 0) {
+      emit(sim, { tick: sim.tick, type: 'clear', obstacle: obs.type })
+      countClear(sim)
+      if (obs.type === 'ring' && isInRingHole(player, obs)) awardBonus(sim, 'ring', RING_BONUS, obsX)
+    }
+  }
+  removeWhere(sim.obstacles, obs => obs.z >= DESPAWN_Z)
+
+  // Jumping physics
+  const fromY = player.y
+  const wasJumping = player.isJumping
+  stepPlayer(player)
+  if (wasJumping && !player.isJumping) emit(sim, { tick: sim.tick, type: 'land' })
+
+  // Pickups
+  const collected = updatePickups(sim.pickups, player, sim.effects, speed)
+  for (const pickup of collected) {
+    addPoints(sim, collectPickup(pickup, sim.effects))
+    emit(sim, { tick: sim.tick, type: 'pickup', pickup: pickup.type })
+  }
+  removeWhere(sim.pickups, pickup => collected.includes(pickup) || isPickupGone(pickup))
+
+  // Collision detection, swept over the tick's movement; a shield absorbs one hit and
+  // destroys the obstacle
+  const hit = sim.obstacles.find(obs => isColliding(player, obs, { travelled: speed, fromY }))
+  if (hit) sim.hitTick = sim.tick
+  if (hit && sim.effects.shield > 0) {
+    sim.effects.shield = 0
+    removeWhere(sim.obstacles, obs => obs === hit)
+    emit(sim, { tick: sim.tick, type: 'shieldBreak', obstacle: hit.type })
+    if (breakCombo(sim.combo)) comboChanged(sim)
+  } else if (hit) {
+    breakCombo(sim.combo)
+    sim.gameOver = true
+    sim.killedBy = hit.type
+    emit(sim, { tick: sim.tick, type: 'gameOver', killedBy: hit.type })
+  }
+
+  // Crossing the finish line ends a course
+  if (sim.course && !sim.gameOver && sim.distance >= sim.course.length) {
+    sim.gameOver = true
+    sim.finished = true
+    emit(sim, { tick: sim.tick, type: 'finish' })
+  }
+}
+
+// Hand over and clear the events collected since the last call
+export function drainEvents(sim: Simulation) {
+  const events = sim.events
+  sim.events = []
+  return events
+}
+
+// Fractional tick the run has reached, including time not yet stepped. The music
+// follows this so it stays locked to the simulation rather than the wall clock.
+export function getSongPosition(sim: Simulation) {
+  return sim.tick + sim.accumulator / TICK_MS
+}
+
+// Feed elapsed wall-clock time in and run as many whole ticks as it covers.
+// Catch-up is capped so a long stall cannot fast-forward the run. `beforeStep` runs
+// ahead of every tick, for anything that queues input tick by tick.
+export function advanceSimulation(sim: Simulation, elapsedMs: number, beforeStep?: (sim: Simulation) => void) {
+  sim.accumulator = Math.min(sim.accumulator + elapsedMs, TICK_MS * MAX_TICKS_PER_ADVANCE)
+
+  let steps = 0
+  while (sim.accumulator >= TICK_MS && !sim.gameOver) {
+    beforeStep?.(sim)
+    stepSimulation(sim)
+    sim.accumulator -= TICK_MS
+    steps++
+  }
+  return steps
+}
+
+export function getSnapshot(sim: Simulation): SimulationSnapshot {
+  const { lane, laneCount, y, isJumping, slideTicks } = sim.player
+  return {
+    tick: sim.tick,
+    seed: sim.seed,
+    score: sim.score,
+    distance: sim.distance,
+    tier: sim.difficulty.tier,
+    lanes: { count: sim.lanes.count, shifts: sim.lanes.shifts.map(shift => ({ ...shift })) },
+    player: { lane, laneCount, y, isJumping, isSliding: slideTicks > 0 },
+    obstacles: sim.obstacles.map(obs => ({ ...obs, motion: { ...obs.motion } })),
+    pickups: sim.pickups.map(pickup => ({ ...pickup })),
+    effects: { ...sim.effects },
+    combo: { ...sim.combo },
+    bonuses: sim.bonuses.map(bonus => ({ ...bonus })),
+    gameOver: sim.gameOver,
+    killedBy: sim.killedBy,
+    finished: sim.finished
+  }
+}
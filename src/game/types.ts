@@ -0,0 +1,161 @@
+import type { DifficultyTier } from './difficulty'
+
+// Types
+export type ObstacleType = 'crystal' | 'spike' | 'ring' | 'barrier' | 'laser'
+
+export const OBSTACLE_TYPES: ObstacleType[] = ['crystal', 'spike', 'ring', 'barrier', 'laser']
+
+// Settings an obstacle's behavior picks when it spawns; all zero or its own lane when still
+export interface ObstacleMotion {
+  // Lane a crystal is switching to
+  toLane: number
+  // Height a spike drops from
+  dropHeight: number
+  // How far a ring rises and falls either side of its resting height
+  sway: number
+  // Where in its cycle a swaying ring or pulsing laser starts, from 0 to 1
+  phase: number
+}
+
+export interface Obstacle {
+  id: number
+  lane: number
+  // Lanes on the track where the obstacle stands
+  laneCount: number
+  z: number
+  type: ObstacleType
+  rotation: number
+  // Where the obstacle is this tick, kept up to date by its behavior. Collision and
+  // rendering both read these rather than working it out from the lane.
+  x: number
+  lift: number
+  // Whether it can hit the player; laser gates are harmless between pulses
+  solid: boolean
+  // Track x of a telegraphed move, drawn as a warning on the ground
+  warning: number | null
+  motion: ObstacleMotion
+}
+
+export type PowerUpType = 'shield' | 'magnet' | 'slowmo'
+export type PickupType = 'shard' | PowerUpType
+
+// Pickups track a world x as well as a lane so the magnet can pull them across
+export interface Pickup {
+  id: number
+  type: PickupType
+  lane: number
+  x: number
+  y: number
+  z: number
+}
+
+// Ticks remaining for each power-up; 0 when inactive
+export type ActiveEffects = Record<PowerUpType, number>
+
+export interface ComboState {
+  // Clean clears since the combo last broke
+  clears: number
+  multiplier: number
+  // Ticks left to make the next clear before the combo breaks; 0 when there is no combo
+  ticksLeft: number
+}
+
+export type BonusType = 'ring' | 'nearMiss'
+
+// A bonus already scaled by the multiplier, placed at the obstacle that earned it
+export interface ScoreBonus {
+  id: number
+  tick: number
+  type: BonusType
+  points: number
+  x: number
+}
+
+export type GameMode = 'endless' | 'ghost' | 'daily' | 'course'
+
+export type InputAction = 'moveLeft' | 'moveRight' | 'jump' | 'slide'
+
+// An input stamped with the tick it was applied on
+export interface TimedInput {
+  tick: number
+  action: InputAction
+}
+
+// Everything needed to reproduce a run exactly
+export interface Replay {
+  seed: number
+  beatSync: boolean
+  inputs: TimedInput[]
+  finalTick: number
+  score: number
+}
+
+// Things that happened during a tick, for audio, effects and stats to react to
+export type GameEvent = { tick: number } & (
+  | { type: 'laneChange', lane: number }
+  | { type: 'jump' }
+  | { type: 'slide' }
+  | { type: 'land' }
+  | { type: 'nearMiss', obstacle: ObstacleType }
+  // An obstacle in the player's lane passed by without a hit
+  | { type: 'clear', obstacle: ObstacleType }
+  | { type: 'bonus', bonus: BonusType, points: number }
+  // The combo multiplier rose, or fell back to 1 when the combo broke
+  | { type: 'combo', multiplier: number }
+  | { type: 'pickup', pickup: PickupType }
+  | { type: 'shieldBreak', obstacle: ObstacleType }
+  | { type: 'gameOver', killedBy: ObstacleType }
+  // Crossed a course's finish line
+  | { type: 'finish' }
+)
+
+// A stretch of track where the lane count changes. Distances are along the track,
+// in the same units as the simulation's distance travelled.
+export interface LaneShift {
+  start: number
+  end: number
+  from: number
+  to: number
+}
+
+// Lane count before the first listed shift, followed by every shift not yet left behind
+export interface LaneLayout {
+  count: number
+  shifts: LaneShift[]
+}
+
+export interface PlayerState {
+  lane: number
+  // Lanes on the track at the player's position
+  laneCount: number
+  y: number
+  velocityY: number
+  isJumping: boolean
+  // Ticks left in the current slide; the hitbox is squashed while above 0
+  slideTicks: number
+}
+
+// Immutable view of the simulation handed to the renderer
+export interface SimulationSnapshot {
+  tick: number
+  seed: number
+  score: number
+  distance: number
+  tier: DifficultyTier
+  lanes: Readonly<LaneLayout>
+  player: Readonly<{
+    lane: number
+    laneCount: number
+    y: number
+    isJumping: boolean
+    isSliding: boolean
+  }>
+  obstacles: readonly Readonly<Obstacle>[]
+  pickups: readonly Readonly<Pickup>[]
+  effects: Readonly<ActiveEffects>
+  combo: Readonly<ComboState>
+  bonuses: readonly Readonly<ScoreBonus>[]
+  gameOver: boolean
+  killedBy: ObstacleType | null
+  finished: boolean
+}
@@ -0,0 +1,56 @@
+import { createSimulation, advanceSimulation, type Simulation } from './simulation'
+import { randomSeed } from './rng'
+import type { ObstacleType } from './types'
+
+export const VERSUS_PLAYERS = 2
+
+// Same-device versus. Each player runs their own simulation from the same seed, so both
+// face the same track. Beat sync stays off: it times spawns by the clock, and slow-mo
+// would shift one player's track away from the other's.
+export interface VersusMatch {
+  seed: number
+  players: Simulation[]
+  // Index of the player who survived longer, 'draw', or null while the match is on
+  result: number | 'draw' | null
+}
+
+export interface VersusPlayerResult {
+  ticks: number
+  distance: number
+  score: number
+  killedBy: ObstacleType | null
+}
+
+export function createVersusMatch(seed = randomSeed()): VersusMatch {
+  return {
+    seed,
+    players: Array.from({ length: VERSUS_PLAYERS }, () => createSimulation({ seed })),
+    result: null
+  }
+}
+
+// Advance every player by the same wall-clock time. The match ends as soon as anyone
+// crashes, since whoever is still running has already survived longer. Players who
+// crash on the same tick draw.
+export function advanceVersus(match: VersusMatch, elapsedMs: number) {
+  if (match.result !== null) return
+  for (const sim of match.players) {
+    advanceSimulation(sim, elapsedMs)
+  }
+
+  const crashed = match.players.filter(sim => sim.gameOver)
+  if (crashed.length === 0) return
+
+  const firstCrash = Math.min(...crashed.map(sim => sim.tick))
+  const survivors = match.players.filter(sim => !sim.gameOver || sim.tick > firstCrash)
+  match.result = survivors.length === 1 ? match.players.indexOf(survivors[0]) : 'draw'
+}
+
+export function getVersusResults(match: VersusMatch): VersusPlayerResult[] {
+  return match.players.map(sim => ({
+    ticks: sim.tick,
+    distance: sim.distance,
+    score: sim.score,
+    killedBy: sim.killedBy
+  }))
+}
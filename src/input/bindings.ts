@@ -0,0 +1,99 @@
+// Abstract controls, mapped to physical keys and gamepad buttons by the player's bindings
+export type ControlAction = 'left' | 'right' | 'jump' | 'slide' | 'start' | 'pause' | 'menu'
+
+export type InputDevice = 'keyboard' | 'gamepad' | 'touch'
+
+export interface InputBindings {
+  // KeyboardEvent.code values
+  keyboard: Record<ControlAction, string[]>
+  // Button indices in the standard gamepad mapping
+  gamepad: Record<ControlAction, number[]>
+  // Analog stick travel (0-1) ignored before it counts as a press
+  deadzone: number
+  // Minimum swipe length in pixels
+  swipeThreshold: number
+}
+
+export const CONTROL_ACTIONS: ControlAction[] = ['left', 'right', 'jump', 'slide', 'start', 'pause', 'menu']
+
+export const CONTROL_LABELS: Record<ControlAction, string> = {
+  left: 'MOVE LEFT',
+  right: 'MOVE RIGHT',
+  jump: 'JUMP',
+  slide: 'SLIDE',
+  start: 'START',
+  pause: 'PAUSE',
+  menu: 'MENU'
+}
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keyboard: {
+    left: ['ArrowLeft', 'KeyA'],
+    right: ['ArrowRight', 'KeyD'],
+    jump: ['Space', 'ArrowUp', 'KeyW'],
+    slide: ['ArrowDown', 'KeyS'],
+    start: ['Space', 'Enter'],
+    pause: ['Escape', 'KeyP'],
+    menu: ['KeyM']
+  },
+  gamepad: {
+    left: [14],
+    right: [15],
+    jump: [0, 12],
+    slide: [1, 13],
+    start: [9, 0],
+    pause: [9],
+    menu: [8]
+  },
+  deadzone: 0.4,
+  swipeThreshold: 30
+}
+
+export function actionsForKey(bindings: InputBindings, code: string) {
+  return CONTROL_ACTIONS.filter(action => bindings.keyboard[action].includes(code))
+}
+
+export function actionsForButton(bindings: InputBindings, button: number) {
+  return CONTROL_ACTIONS.filter(action => bindings.gamepad[action].includes(button))
+}
+
+// Replace an action's bindings with a single new key or button
+export function rebind(
+  bindings: InputBindings,
+  device: 'keyboard' | 'gamepad',
+  action: ControlAction,
+  input: string | number
+): InputBindings {
+  return device === 'keyboard'
+    ? { ...bindings, keyboard: { ...bindings.keyboard, [action]: [input as string] } }
+    : { ...bindings, gamepad: { ...bindings.gamepad, [action]: [input as number] } }
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Space: 'SPACE',
+  Enter: 'ENTER',
+  Escape: 'ESC'
+}
+
+export function formatKey(code: string) {
+  return KEY_LABELS[code] ?? code.replace(/^(Key|Digit)/, '').toUpperCase()
+}
+
+const BUTTON_LABELS = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'SELECT', 'START',
+  'L3', 'R3', 'D-PAD ↑', 'D-PAD ↓', 'D-PAD ←', 'D-PAD →', 'HOME'
+]
+
+export function formatButton(button: number) {
+  return BUTTON_LABELS[button] ?? `BUTTON ${button}`
+}
+
+export function formatBindings(bindings: InputBindings, device: 'keyboard' | 'gamepad', action: ControlAction) {
+  return device === 'keyboard'
+    ? bindings.keyboard[action].map(formatKey).join(' / ')
+    : bindings.gamepad[action].map(formatButton).join(' / ')
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react'
+import { actionsForButton, type ControlAction, type InputBindings } from './bindings'
+
+// Actions currently held on a pad. The left stick always acts as a d-pad:
+// left/right to move, up to jump, down to slide.
+export function readGamepadActions(pad: Gamepad, bindings: InputBindings) {
+  const active = new Set<ControlAction>()
+  pad.buttons.forEach((button, index) => {
+    if (button.pressed) {
+      for (const action of actionsForButton(bindings, index)) active.add(action)
+    }
+  })
+
+  const [x = 0, y = 0] = pad.axes
+  if (x < -bindings.deadzone) active.add('left')
+  if (x > bindings.deadzone) active.add('right')
+  if (y < -bindings.deadzone) active.add('jump')
+  if (y > bindings.deadzone) active.add('slide')
+  return active
+}
+
+export function connectedGamepads() {
+  return (navigator.getGamepads?.() ?? []).filter((pad): pad is Gamepad => pad !== null)
+}
+
+// Polls connected gamepads every frame and reports newly pressed actions with the pad index
+export function useGamepad({
+  bindings,
+  enabled,
+  onAction
+}: {
+  bindings: InputBindings
+  enabled: boolean
+  onAction: (action: ControlAction, padIndex: number) => void
+}) {
+  const onActionRef = useRef(onAction)
+  onActionRef.current = onAction
+
+  useEffect(() => {
+    if (!enabled) return
+
+    // The first poll of each pad only records what is already held
+    const held = new Map<number, Set<ControlAction>>()
+    let frame = 0
+
+    const poll = () => {
+      for (const pad of connectedGamepads()) {
+        const active = readGamepadActions(pad, bindings)
+        const previous = held.get(pad.index)
+        if (previous) {
+          for (const action of active) {
+            if (!previous.has(action)) onActionRef.current(action, pad.index)
+          }
+        }
+        held.set(pad.index, active)
+      }
+      frame = requestAnimationFrame(poll)
+    }
+
+    frame = requestAnimationFrame(poll)
+    return () => cancelAnimationFrame(frame)
+  }, [bindings, enabled])
+}
@@ -0,0 +1,25 @@
+import type { InputAction } from '../game/types'
+import type { ControlAction } from './bindings'
+
+// Split keyboard for versus: WASD for player 1 and the arrow keys for player 2.
+// These are fixed so both players can learn them at a glance.
+export const VERSUS_KEYS: Record<string, { player: number, action: InputAction }> = {
+  KeyA: { player: 0, action: 'moveLeft' },
+  KeyD: { player: 0, action: 'moveRight' },
+  KeyW: { player: 0, action: 'jump' },
+  KeyS: { player: 0, action: 'slide' },
+  ArrowLeft: { player: 1, action: 'moveLeft' },
+  ArrowRight: { player: 1, action: 'moveRight' },
+  ArrowUp: { player: 1, action: 'jump' },
+  ArrowDown: { player: 1, action: 'slide' }
+}
+
+export const VERSUS_KEY_HINTS = ['W A S D', '↑ ← ↓ →']
+
+// Gamepad actions that steer a player; the rest (start, pause) control the match
+export const CONTROL_INPUTS: Partial<Record<ControlAction, InputAction>> = {
+  left: 'moveLeft',
+  right: 'moveRight',
+  jump: 'jump',
+  slide: 'slide'
+}
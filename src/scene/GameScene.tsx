@@ -0,0 +1,144 @@
+import { memo, useMemo, useRef, useState, type MutableRefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Float, Stars, Text } from '@react-three/drei'
+import * as THREE from 'three'
+import { BIOMES, sampleBiome } from '../game/biomes'
+import type { Simulation } from '../game/simulation'
+import type { ObstacleType } from '../game/types'
+import { FloatingDecorations, Ground, Lighting, SideWalls } from './environment'
+import { CameraRig, type CameraMode } from './camera'
+import { HazardCues } from './cues'
+import { FinishLine } from './finish'
+import { Hitboxes } from './hitboxes'
+import { Obstacles } from './obstacles'
+import { Pickups } from './pickups'
+import { PlayerCube } from './PlayerCube'
+import { ScorePopups } from './popups'
+import type { QualityPreset } from './quality'
+import type { SceneSource } from './source'
+import { Warnings } from './warnings'
+
+// troika-three-text mesh behind drei's Text, updated without re-rendering
+type TextMesh = THREE.Mesh & { text: string, sync: () => void }
+
+function formatScore(score: number) {
+  return score.toString().padStart(6, '0')
+}
+
+// Game scene. Everything moving is read from the simulation inside useFrame, so the
+// scene only re-renders for settings and biome changes, never per tick.
+function GameScene({
+  simulationRef,
+  ghostRef,
+  quality,
+  palette,
+  shapeCues,
+  reducedMotion,
+  showHitboxes = false,
+  cameraMode = 'chase',
+  debugCamera = false,
+  attract = false
+}: {
+  simulationRef: MutableRefObject<Simulation>
+  ghostRef: MutableRefObject<Simulation | null>
+  quality: QualityPreset
+  // Fixed hazard colors in place of the biome's, for color blindness
+  palette: Record<ObstacleType, string> | null
+  shapeCues: boolean
+  reducedMotion: boolean
+  showHitboxes?: boolean
+  cameraMode?: CameraMode
+  debugCamera?: boolean
+  // Playing behind the title screen, where crashes aren't announced
+  attract?: boolean
+}) {
+  const lookRef = useRef(sampleBiome(BIOMES, simulationRef.current.distance).look)
+  const source = useMemo<SceneSource>(
+    () => ({ simulation: simulationRef, ghost: ghostRef, look: lookRef }),
+    [simulationRef, ghostRef]
+  )
+  const scoreRef = useRef<TextMesh>(null!)
+  const shownScore = useRef(0)
+  const gameOverRef = useRef<THREE.Group>(null!)
+  // The star field is rebuilt when this changes, which only happens between biomes
+  const [stars, setStars] = useState(lookRef.current.stars)
+
+  // Runs before the rest of the scene so every part draws with this frame's look
+  useFrame(() => {
+    const sim = simulationRef.current
+    lookRef.current = sampleBiome(BIOMES, sim.distance).look
+    if (lookRef.current.stars !== stars) setStars(lookRef.current.stars)
+
+    if (scoreRef.current && sim.score !== shownScore.current) {
+      shownScore.current = sim.score
+      scoreRef.current.text = formatScore(sim.score)
+      scoreRef.current.sync()
+    }
+    gameOverRef.current.visible = sim.gameOver && !sim.finished && !attract
+  }, -1)
+
+  return (
+    <>
+      <CameraRig source={source} mode={cameraMode} reducedMotion={reducedMotion} debug={debugCamera} />
+
+      {/* Lighting */}
+      <Lighting source={source} shadowMapSize={quality.shadowMapSize} />
+
+      {/* Background */}
+      <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={stars.saturation} fade speed={reducedMotion ? 0 : stars.speed} />
+
+      {/* Environment */}
+      <Ground source={source} />
+      <SideWalls source={source} />
+      <FloatingDecorations source={source} count={quality.decorations} reducedMotion={reducedMotion} />
+
+      {/* Player and personal best ghost */}
+      <PlayerCube source={source} trail={quality.trail} reducedMotion={reducedMotion} />
+      <PlayerCube source={source} trail={quality.trail} reducedMotion={reducedMotion} ghost />
+
+      {/* Obstacles and pickups */}
+      <Obstacles source={source} palette={palette} reducedMotion={reducedMotion} />
+      {shapeCues && <HazardCues source={source} />}
+      <Warnings source={source} reducedMotion={reducedMotion} />
+      <FinishLine source={source} />
+      <Pickups source={source} reducedMotion={reducedMotion} />
+      {showHitboxes && <Hitboxes source={source} />}
+
+      {/* Score display in 3D */}
+      <Text
+        ref={scoreRef}
+        position={[0, 6, -15]}
+        fontSize={1.5}
+        color="#05d9e8"
+        anchorX="center"
+        anchorY="middle"
+        outlineWidth={0.05}
+        outlineColor="#0a0a0f"
+      >
+        {formatScore(0)}
+      </Text>
+
+      {/* Combo multiplier and bonus popups */}
+      <ScorePopups source={source} reducedMotion={reducedMotion} />
+
+      {/* Game Over Text */}
+      <group ref={gameOverRef} visible={false}>
+        <Float enabled={!reducedMotion} speed={2} rotationIntensity={0.5} floatIntensity={0.5}>
+          <Text
+            position={[0, 3, -5]}
+            fontSize={0.8}
+            color="#ff2a6d"
+            anchorX="center"
+            anchorY="middle"
+            outlineWidth={0.03}
+            outlineColor="#0a0a0f"
+          >
+            GAME OVER
+          </Text>
+        </Float>
+      </group>
+    </>
+  )
+}
+
+export default memo(GameScene)
@@ -0,0 +1,99 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+
+// One piece of a multi-mesh object, drawn for every item with a single InstancedMesh
+export interface InstancePart {
+  geometry: THREE.BufferGeometry
+  material: THREE.Material
+  // Transform relative to the item
+  offset?: THREE.Matrix4
+  castShadow?: boolean
+}
+
+export function partOffset(position: [number, number, number], rotation: [number, number, number] = [0, 0, 0], scale = 1) {
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(...position),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...rotation)),
+    new THREE.Vector3(scale, scale, scale)
+  )
+}
+
+// Position `dummy` for an item, then call `add` to place every part there
+export type PlaceInstances = (dummy: THREE.Object3D, add: () => void, time: number) => void
+
+// Draws up to `capacity` copies of a set of parts. `place` runs every frame and writes
+// transforms straight into the instance matrices, with no allocation and no React state.
+// With `still` set, time stays at 0 so per-item animation freezes.
+export function InstancedParts({
+  parts,
+  capacity,
+  place,
+  still = false
+}: {
+  parts: InstancePart[]
+  capacity: number
+  place: PlaceInstances
+  still?: boolean
+}) {
+  const meshes = useRef<THREE.InstancedMesh[]>([])
+
+  const writer = useMemo(() => {
+    const dummy = new THREE.Object3D()
+    const matrix = new THREE.Matrix4()
+    let count = 0
+    const add = () => {
+      if (count >= capacity) return
+      dummy.updateMatrix()
+      parts.forEach((part, index) => {
+        const mesh = meshes.current[index]
+        mesh.setMatrixAt(count, part.offset ? matrix.multiplyMatrices(dummy.matrix, part.offset) : dummy.matrix)
+      })
+      count++
+    }
+    return {
+      dummy,
+      add,
+      begin: () => { count = 0 },
+      end: () => count
+    }
+  }, [parts, capacity])
+
+  useFrame((state) => {
+    writer.begin()
+    place(writer.dummy, writer.add, still ? 0 : state.clock.elapsedTime)
+    const count = writer.end()
+    for (const mesh of meshes.current) {
+      mesh.count = count
+      mesh.instanceMatrix.needsUpdate = true
+    }
+  })
+
+  // Parts are built with useMemo by the pools, so they are freed here
+  useEffect(() => () => {
+    for (const part of parts) {
+      part.geometry.dispose()
+      part.material.dispose()
+    }
+  }, [parts])
+
+  return (
+    <>
+      {parts.map((part, index) => (
+        <instancedMesh
+          key={index}
+          ref={(mesh: THREE.InstancedMesh | null) => {
+            // Nothing is drawn until the first frame places instances
+            if (mesh && meshes.current[index] !== mesh) {
+              mesh.count = 0
+              meshes.current[index] = mesh
+            }
+          }}
+          args={[part.geometry, part.material, capacity]}
+          castShadow={part.castShadow}
+          frustumCulled={false}
+        />
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,137 @@
+import { useRef, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Trail } from '@react-three/drei'
+import * as THREE from 'three'
+import { DESPAWN_Z, PLAYER_SIZE, SLIDE_HEIGHT } from '../game/constants'
+import { laneX } from '../game/lanes'
+import type { Simulation } from '../game/simulation'
+import { GHOST_COLOR, POWER_UP_COLORS } from './colors'
+import type { SceneSource } from './source'
+
+// Active power-ups tint the cube; slow-mo wins over magnet. The ghost keeps its own color.
+function cubeColor(sim: Simulation, ghost: boolean) {
+  if (ghost) return GHOST_COLOR
+  if (sim.gameOver) return '#ff2a6d'
+  if (sim.effects.slowmo > 0) return POWER_UP_COLORS.slowmo
+  if (sim.effects.magnet > 0) return POWER_UP_COLORS.magnet
+  return '#05d9e8'
+}
+
+// Player Cube Component. With `ghost` set it draws the personal best run instead,
+// as a translucent stand-in placed by how far ahead or behind it is.
+export function PlayerCube({
+  source,
+  ghost = false,
+  trail = true,
+  reducedMotion = false
+}: {
+  source: SceneSource
+  ghost?: boolean
+  trail?: boolean
+  // Drops the spin and pulsing, keeping only movement the player caused
+  reducedMotion?: boolean
+}) {
+  const groupRef = useRef<THREE.Group>(null!)
+  const meshRef = useRef<THREE.Mesh>(null!)
+  const glowRef = useRef<THREE.Mesh>(null!)
+  const shieldRef = useRef<THREE.Mesh>(null!)
+  // Only changes on power-ups and crashes, so re-rendering for it is cheap
+  const [color, setColor] = useState(ghost ? GHOST_COLOR : '#05d9e8')
+
+  useFrame((state, delta) => {
+    const live = source.simulation.current
+    const sim = ghost ? source.ghost.current : live
+    // Positive when the ghost has fallen behind
+    const z = sim ? live.distance - sim.distance : 0
+    groupRef.current.visible = sim !== null && z < DESPAWN_Z
+    if (!sim || !groupRef.current.visible) return
+
+    const { player, effects } = sim
+    const x = laneX(player.lane, player.laneCount)
+    const isSliding = player.slideTicks > 0
+    const spin = effects.slowmo > 0 ? 0.4 : 1
+    groupRef.current.position.z = z
+
+    const nextColor = cubeColor(sim, ghost)
+    if (nextColor !== color) setColor(nextColor)
+
+    const mesh = meshRef.current
+    // Smooth lane transition
+    mesh.position.x = THREE.MathUtils.lerp(mesh.position.x, x, 0.15)
+    if (isSliding) {
+      // Flatten against the ground to match the squashed hitbox
+      const squash = SLIDE_HEIGHT / PLAYER_SIZE
+      mesh.position.y = player.y - (PLAYER_SIZE - SLIDE_HEIGHT) / 2
+      mesh.rotation.set(0, 0, 0)
+      mesh.scale.set(1.3, squash, 1.3)
+    } else if (reducedMotion) {
+      mesh.position.y = player.y
+      mesh.rotation.set(0, 0, 0)
+      mesh.scale.setScalar(1)
+    } else {
+      mesh.position.y = player.y
+
+      // Rotation animation
+      mesh.rotation.x += delta * 2 * spin
+      mesh.rotation.z += delta * 1.5 * spin
+
+      // Pulse scale based on jumping
+      const scale = player.isJumping ? 1.1 : 1 + Math.sin(state.clock.elapsedTime * 4) * 0.05
+      mesh.scale.setScalar(scale)
+    }
+
+    const time = reducedMotion ? 0 : state.clock.elapsedTime
+    glowRef.current.position.x = mesh.position.x
+    glowRef.current.position.y = player.y
+    glowRef.current.scale.setScalar(1.8 + Math.sin(time * 3) * 0.2)
+
+    shieldRef.current.visible = !ghost && effects.shield > 0
+    shieldRef.current.position.x = mesh.position.x
+    shieldRef.current.position.y = player.y
+    if (!reducedMotion) shieldRef.current.rotation.y += delta
+  })
+
+  const cube = (
+    <mesh ref={meshRef} position={[0, 0.5, 0]} castShadow={!ghost}>
+      <boxGeometry args={[0.6, 0.6, 0.6]} />
+      <meshStandardMaterial
+        color={color}
+        emissive={color}
+        emissiveIntensity={ghost ? 1 : 2}
+        metalness={0.9}
+        roughness={0.1}
+        transparent={ghost}
+        opacity={ghost ? 0.35 : 1}
+        depthWrite={!ghost}
+      />
+    </mesh>
+  )
+
+  return (
+    <group ref={groupRef}>
+      {trail ? (
+        <Trail
+          width={2}
+          length={6}
+          color={color}
+          attenuation={(t) => t * t}
+        >
+          {cube}
+        </Trail>
+      ) : cube}
+      <mesh ref={glowRef} position={[0, 0.5, 0]}>
+        <sphereGeometry args={[0.5, 16, 16]} />
+        <meshBasicMaterial color={color} transparent opacity={0.15} />
+      </mesh>
+      <mesh ref={shieldRef} position={[0, 0.5, 0]} visible={false}>
+        <icosahedronGeometry args={[0.75, 1]} />
+        <meshBasicMaterial
+          color={POWER_UP_COLORS.shield}
+          transparent
+          opacity={0.35}
+          wireframe
+        />
+      </mesh>
+    </group>
+  )
+}
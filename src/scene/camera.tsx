@@ -0,0 +1,133 @@
+import { useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { OrbitControls } from '@react-three/drei'
+import * as THREE from 'three'
+import { GROUND_Y, OBSTACLE_SPEED, PLAYER_SIZE } from '../game/constants'
+import { DIFFICULTY_CURVE } from '../game/difficulty'
+import { laneX } from '../game/lanes'
+import { playerBounds } from '../game/physics'
+import { currentSpeed } from '../game/simulation'
+import type { PlayerState } from '../game/types'
+import type { SceneSource } from './source'
+
+export type CameraMode = 'chase' | 'topDown' | 'firstPerson'
+
+export const CAMERA_MODES: CameraMode[] = ['chase', 'topDown', 'firstPerson']
+
+// Field of view at the starting speed, widening by up to FOV_WIDEN degrees at the curve's top speed
+const BASE_FOV = 75
+const FOV_WIDEN = 15
+const TOP_SPEED = Math.max(...DIFFICULTY_CURVE.map(stage => stage.speed))
+
+// How quickly each mode catches up with where it wants to be, per second. First person
+// has to stay inside the cube, so it barely lags at all.
+const FOLLOW_RATES: Record<CameraMode, number> = { chase: 6, topDown: 4, firstPerson: 20 }
+const FOV_RATE = 2
+
+// A jolt on every hit, fading out over `duration` seconds
+const SHAKE = { amplitude: 0.35, duration: 0.5, frequency: 40 }
+
+// After a crash the camera circles the crash point, slowly closing in
+const CRASH_ORBIT = { speed: 0.35, height: 2, from: 6, to: 4, closeIn: 2 }
+
+// Where a mode puts the camera and what it looks at, for the player where they are now
+function placeCamera(mode: CameraMode, player: PlayerState, position: THREE.Vector3, target: THREE.Vector3) {
+  const x = laneX(player.lane, player.laneCount)
+  const rise = player.y - GROUND_Y
+  switch (mode) {
+    case 'chase':
+      position.set(x * 0.8, 4 + rise * 0.5, 6)
+      target.set(x * 0.5, 1 + rise * 0.3, -10)
+      break
+    case 'topDown':
+      position.set(x * 0.4, 16, 4)
+      target.set(x * 0.4, 0, -8)
+      break
+    case 'firstPerson': {
+      // Just in front of the cube at eye level, ducking with a slide
+      const eye = playerBounds(player).top - 0.1
+      position.set(x, eye, -PLAYER_SIZE / 2 - 0.2)
+      target.set(x, eye - 0.3, -20)
+      break
+    }
+  }
+}
+
+// Pseudo-random shake in -1..1 that changes smoothly enough to read as a rattle
+function rattle(time: number, seed: number) {
+  return Math.sin(time * SHAKE.frequency + seed) * Math.cos(time * SHAKE.frequency * 0.73 + seed * 2)
+}
+
+// Camera for the scene: follows the player in the chosen mode, widens its view as the
+// track speeds up, shakes on hits and circles the crash point once a run ends in one.
+// With reduced motion there is no shake or orbit. The debug camera hands control to
+// OrbitControls instead.
+export function CameraRig({
+  source,
+  mode,
+  reducedMotion,
+  debug
+}: {
+  source: SceneSource
+  mode: CameraMode
+  reducedMotion: boolean
+  debug: boolean
+}) {
+  const camera = useThree(state => state.camera) as THREE.PerspectiveCamera
+  const position = useRef<THREE.Vector3>(null!)
+  position.current ??= camera.position.clone()
+  const target = useRef(new THREE.Vector3(0, 1, -10))
+  const wanted = useRef({ position: new THREE.Vector3(), target: new THREE.Vector3() })
+  const shake = useRef({ hitTick: null as number | null, start: -Infinity })
+  const crashStart = useRef<number | null>(null)
+
+  useFrame((state, delta) => {
+    if (debug) return
+    const sim = source.simulation.current
+    const time = state.clock.elapsedTime
+    const next = wanted.current
+
+    placeCamera(mode, sim.player, next.position, next.target)
+    const crashed = sim.gameOver && !sim.finished
+    if (crashed && !reducedMotion) {
+      crashStart.current ??= time
+      const elapsed = time - crashStart.current
+      const angle = elapsed * CRASH_ORBIT.speed
+      const radius = THREE.MathUtils.lerp(CRASH_ORBIT.from, CRASH_ORBIT.to, Math.min(1, elapsed / CRASH_ORBIT.closeIn))
+      next.target.set(laneX(sim.player.lane, sim.player.laneCount), sim.player.y, 0)
+      next.position.set(
+        next.target.x + Math.sin(angle) * radius,
+        next.target.y + CRASH_ORBIT.height,
+        Math.cos(angle) * radius
+      )
+    } else if (!crashed) {
+      crashStart.current = null
+    }
+
+    // Ease towards the mode's pose, independent of frame rate
+    const follow = 1 - Math.exp(-FOLLOW_RATES[mode] * delta)
+    position.current.lerp(next.position, follow)
+    target.current.lerp(next.target, follow)
+    camera.position.copy(position.current)
+
+    if (sim.hitTick !== shake.current.hitTick) {
+      shake.current = { hitTick: sim.hitTick, start: time }
+    }
+    const shaking = 1 - (time - shake.current.start) / SHAKE.duration
+    if (shaking > 0 && !reducedMotion) {
+      const strength = SHAKE.amplitude * shaking * shaking
+      camera.position.x += rattle(time, 1) * strength
+      camera.position.y += rattle(time, 2) * strength
+    }
+    camera.lookAt(target.current)
+
+    const speedUp = (currentSpeed(sim) - OBSTACLE_SPEED) / (TOP_SPEED - OBSTACLE_SPEED)
+    const fov = BASE_FOV + FOV_WIDEN * THREE.MathUtils.clamp(speedUp, 0, 1)
+    if (Math.abs(camera.fov - fov) > 0.01) {
+      camera.fov = THREE.MathUtils.lerp(camera.fov, fov, 1 - Math.exp(-FOV_RATE * delta))
+      camera.updateProjectionMatrix()
+    }
+  })
+
+  return debug ? <OrbitControls makeDefault target={[0, 1, -10]} /> : null
+}
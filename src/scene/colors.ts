@@ -0,0 +1,21 @@
+import type { BonusType, PowerUpType } from '../game/types'
+
+// Power-up colors, shared by pickups, the player and the HUD
+export const POWER_UP_COLORS: Record<PowerUpType, string> = {
+  shield: '#05d9e8',
+  magnet: '#ff9f1c',
+  slowmo: '#b967ff'
+}
+export const SHARD_COLOR = '#00ff9f'
+export const GHOST_COLOR = '#ffdd00'
+
+// Score popups and the combo readout, shared by the scene and the HUD
+export const BONUS_COLORS: Record<BonusType, string> = {
+  ring: '#ffdd00',
+  nearMiss: '#d300c5'
+}
+export const BONUS_LABELS: Record<BonusType, string> = {
+  ring: 'RING',
+  nearMiss: 'NEAR MISS'
+}
+export const COMBO_COLOR = '#ff2a6d'
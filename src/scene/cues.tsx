@@ -0,0 +1,52 @@
+import { useMemo } from 'react'
+import * as THREE from 'three'
+import { OBSTACLE_TYPES, type ObstacleType } from '../game/types'
+import { InstancedParts, partOffset, type InstancePart, type PlaceInstances } from './InstancedParts'
+import type { SceneSource } from './source'
+
+const CUE_POOL_SIZE = 128
+
+// Outline painted on the ground under each hazard, so types differ by shape as well as color:
+// a diamond for crystals, a triangle for spikes, a circle for rings, a square for barriers
+// and a hexagon for laser gates
+const CUE_SHAPES: Record<ObstacleType, { segments: number, thetaStart: number }> = {
+  crystal: { segments: 4, thetaStart: 0 },
+  spike: { segments: 3, thetaStart: Math.PI / 2 },
+  ring: { segments: 32, thetaStart: 0 },
+  barrier: { segments: 4, thetaStart: Math.PI / 4 },
+  laser: { segments: 6, thetaStart: 0 }
+}
+
+function createParts(type: ObstacleType): InstancePart[] {
+  const { segments, thetaStart } = CUE_SHAPES[type]
+  return [{
+    geometry: new THREE.RingGeometry(0.6, 0.78, segments, 1, thetaStart),
+    material: new THREE.MeshBasicMaterial({ color: '#ffffff', transparent: true, opacity: 0.8, side: THREE.DoubleSide }),
+    offset: partOffset([0, 0.02, 0], [-Math.PI / 2, 0, 0])
+  }]
+}
+
+function CuePool({ type, source }: { type: ObstacleType, source: SceneSource }) {
+  const parts = useMemo(() => createParts(type), [type])
+
+  const place: PlaceInstances = (dummy, add) => {
+    for (const obstacle of source.simulation.current.obstacles) {
+      if (obstacle.type !== type) continue
+      dummy.position.set(obstacle.x, 0, obstacle.z)
+      add()
+    }
+  }
+
+  return <InstancedParts parts={parts} capacity={CUE_POOL_SIZE} place={place} />
+}
+
+// Shape cues for every hazard in the run
+export function HazardCues({ source }: { source: SceneSource }) {
+  return (
+    <>
+      {OBSTACLE_TYPES.map(type => (
+        <CuePool key={type} type={type} source={source} />
+      ))}
+    </>
+  )
+}
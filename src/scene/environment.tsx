@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+import { DESPAWN_Z, LANE_WIDTH } from '../game/constants'
+import { halfWidthAt } from '../game/lanes'
+import type { SceneSource } from './source'
+
+// Lane shifts the ground shader can draw at once. Shifts are hundreds of meters apart,
+// so no more than two are ever in view.
+const MAX_VISIBLE_SHIFTS = 4
+
+// Ground with grid effect
+export function Ground({ source }: { source: SceneSource }) {
+  const ref = useRef<THREE.Mesh>(null!)
+
+  useFrame((state) => {
+    if (ref.current && ref.current.material instanceof THREE.ShaderMaterial) {
+      const { lanes, distance } = source.simulation.current
+      const look = source.look.current
+      const { uniforms } = ref.current.material
+      uniforms.time.value = state.clock.elapsedTime
+      uniforms.color1.value.set(look.ground.base)
+      uniforms.color2.value.set(look.ground.grid)
+      uniforms.trackDistance.value = distance
+      uniforms.laneCount.value = lanes.count
+      uniforms.shiftCount.value = Math.min(lanes.shifts.length, MAX_VISIBLE_SHIFTS)
+      for (let i = 0; i < uniforms.shiftCount.value; i++) {
+        const shift = lanes.shifts[i]
+        uniforms.shifts.value[i].set(shift.start, shift.end, shift.from, shift.to)
+      }
+    }
+  })
+
+  const shaderMaterial = useMemo(() => {
+    return new THREE.ShaderMaterial({
+      uniforms: {
+        time: { value: 0 },
+        color1: { value: new THREE.Color('#0a0a0f') },
+        color2: { value: new THREE.Color('#05d9e8') },
+        laneWidth: { value: LANE_WIDTH },
+        trackDistance: { value: 0 },
+        laneCount: { value: 3 },
+        shiftCount: { value: 0 },
+        // start, end, from, to
+        shifts: { value: Array.from({ length: MAX_VISIBLE_SHIFTS }, () => new THREE.Vector4()) }
+      },
+      vertexShader: `
+        varying vec2 vUv;
+        varying vec3 vWorld;
+        void main() {
+          vUv = uv;
+          vWorld = (modelMatrix * vec4(position, 1.0)).xyz;
+          gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+        }
+      `,
+      fragmentShader: `
+        uniform float time;
+        uniform vec3 color1;
+        uniform vec3 color2;
+        uniform float laneWidth;
+        uniform float trackDistance;
+        uniform float laneCount;
+        uniform int shiftCount;
+        uniform vec4 shifts[${MAX_VISIBLE_SHIFTS}];
+        varying vec2 vUv;
+        varying vec3 vWorld;
+
+        void main() {
+          vec2 uv = vUv * 40.0;
+          uv.y += time * 3.0;
+
+          float lineX = smoothstep(0.0, 0.05, abs(fract(uv.x) - 0.5));
+          float lineY = smoothstep(0.0, 0.05, abs(fract(uv.y) - 0.5));
+          float grid = 1.0 - min(lineX, lineY);
+
+          float glow = 1.0 - vUv.y;
+          glow = pow(glow, 3.0);
+
+          // Ease the track width through lane shifts, matching halfWidthAt in lanes.ts
+          float d = trackDistance - vWorld.z;
+          float lanes = laneCount;
+          for (int i = 0; i < ${MAX_VISIBLE_SHIFTS}; i++) {
+            if (i >= shiftCount) break;
+            lanes = mix(lanes, shifts[i].w, smoothstep(shifts[i].x, shifts[i].y, d));
+          }
+          float edge = abs(vWorld.x) - lanes * laneWidth * 0.5;
+          float inside = 1.0 - step(0.0, edge);
+          float rim = 1.0 - smoothstep(0.0, 0.15, abs(edge));
+
+          vec3 finalColor = mix(color1, color2, (grid * 0.5 + glow * 0.3) * mix(0.25, 1.0, inside));
+          finalColor = mix(finalColor, color2, rim);
+          gl_FragColor = vec4(finalColor, 1.0);
+        }
+      `
+    })
+  }, [])
+
+  return (
+    <mesh ref={ref} rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, -20]} receiveShadow>
+      <planeGeometry args={[30, 100]} />
+      <primitive object={shaderMaterial} attach="material" />
+    </mesh>
+  )
+}
+
+// Side walls, built from short segments that follow the track width
+const WALL_SEGMENTS = 20
+const WALL_SEGMENT_LENGTH = 5
+const WALL_MARGIN = 6.25
+
+export function SideWalls({ source }: { source: SceneSource }) {
+  const ref = useRef<THREE.InstancedMesh>(null!)
+  const material = useMemo(() => new THREE.MeshStandardMaterial({
+    color: '#0a0a0f',
+    emissiveIntensity: 0.03,
+    transparent: true,
+    opacity: 0.8
+  }), [])
+  const dummy = useMemo(() => new THREE.Object3D(), [])
+
+  useFrame(() => {
+    const { lanes, distance } = source.simulation.current
+    material.emissive.set(source.look.current.walls)
+
+    for (let segment = 0; segment < WALL_SEGMENTS; segment++) {
+      const z = DESPAWN_Z - (segment + 0.5) * WALL_SEGMENT_LENGTH
+      const x = halfWidthAt(lanes, distance - z) + WALL_MARGIN
+      for (const side of [-1, 1]) {
+        dummy.position.set(side * x, 5, z)
+        dummy.rotation.set(0, -side * Math.PI / 2, 0)
+        dummy.updateMatrix()
+        ref.current.setMatrixAt(segment * 2 + (side + 1) / 2, dummy.matrix)
+      }
+    }
+    ref.current.instanceMatrix.needsUpdate = true
+  })
+
+  useEffect(() => () => material.dispose(), [material])
+
+  return (
+    <instancedMesh ref={ref} args={[undefined, material, WALL_SEGMENTS * 2]} frustumCulled={false}>
+      <planeGeometry args={[WALL_SEGMENT_LENGTH + 0.1, 15]} />
+    </instancedMesh>
+  )
+}
+
+// Floating decorative elements, bobbing and tumbling in one instanced draw
+export function FloatingDecorations({
+  source,
+  count,
+  reducedMotion
+}: {
+  source: SceneSource
+  count: number
+  reducedMotion: boolean
+}) {
+  const ref = useRef<THREE.InstancedMesh>(null!)
+  const particles = useMemo(() => {
+    return Array.from({ length: count }, () => ({
+      position: new THREE.Vector3(
+        (Math.random() - 0.5) * 20,
+        Math.random() * 10 + 2,
+        -Math.random() * 60 - 5
+      ),
+      scale: Math.random() * 0.15 + 0.05,
+      speed: Math.random() * 0.5 + 0.5,
+      phase: Math.random() * Math.PI * 2
+    }))
+  }, [count])
+  const dummy = useMemo(() => new THREE.Object3D(), [])
+  const color = useMemo(() => new THREE.Color(), [])
+
+  useFrame((state) => {
+    // Reduced motion holds each decoration at its starting pose
+    const time = reducedMotion ? 0 : state.clock.elapsedTime
+    const palette = source.look.current.decorations
+    particles.forEach((p, i) => {
+      const t = time * p.speed + p.phase
+      dummy.position.set(p.position.x, p.position.y + Math.sin(t) * 0.5, p.position.z)
+      dummy.rotation.set(Math.sin(t * 0.7) * 2, Math.cos(t * 0.5) * 2, Math.sin(t * 0.3))
+      dummy.scale.setScalar(p.scale)
+      dummy.updateMatrix()
+      ref.current.setMatrixAt(i, dummy.matrix)
+      ref.current.setColorAt(i, color.set(palette[i % palette.length]))
+    })
+    ref.current.instanceMatrix.needsUpdate = true
+    if (ref.current.instanceColor) ref.current.instanceColor.needsUpdate = true
+  })
+
+  return (
+    <instancedMesh key={count} ref={ref} args={[undefined, undefined, count]} frustumCulled={false}>
+      <dodecahedronGeometry args={[1, 0]} />
+      <meshBasicMaterial />
+    </instancedMesh>
+  )
+}
+
+// Fog and lights, recolored every frame from the biome. A shadow map size of 0 turns
+// shadows off.
+export function Lighting({ source, shadowMapSize }: { source: SceneSource, shadowMapSize: number }) {
+  const scene = useThree(state => state.scene)
+  const fog = useMemo(() => new THREE.Fog('#050508', 10, 70), [])
+  const ambientRef = useRef<THREE.AmbientLight>(null!)
+  const sunRef = useRef<THREE.DirectionalLight>(null!)
+  const lightRefs = useRef<THREE.PointLight[]>([])
+
+  // The shadow map is only allocated at its first render, so drop it to resize
+  useEffect(() => {
+    const { shadow } = sunRef.current
+    sunRef.current.castShadow = shadowMapSize > 0
+    if (shadowMapSize > 0) shadow.mapSize.set(shadowMapSize, shadowMapSize)
+    shadow.map?.dispose()
+    shadow.map = null
+  }, [shadowMapSize])
+
+  useEffect(() => {
+    scene.fog = fog
+    return () => { scene.fog = null }
+  }, [scene, fog])
+
+  useFrame(() => {
+    const look = source.look.current
+    fog.color.set(look.fog.color)
+    fog.near = look.fog.near
+    fog.far = look.fog.far
+    ambientRef.current.intensity = look.ambient
+    lightRefs.current.forEach((light, i) => light.color.set(look.lights[i]))
+  })
+
+  const pointLights: { position: [number, number, number], intensity: number }[] = [
+    { position: [0, 5, -10], intensity: 2 },
+    { position: [-5, 3, -20], intensity: 1.5 },
+    { position: [5, 3, -30], intensity: 1.5 }
+  ]
+
+  return (
+    <>
+      <ambientLight ref={ambientRef} intensity={0.3} />
+      <directionalLight ref={sunRef} position={[5, 10, 5]} intensity={1} />
+      {pointLights.map((light, i) => (
+        <pointLight
+          key={i}
+          ref={(ref: THREE.PointLight | null) => { if (ref) lightRefs.current[i] = ref }}
+          position={light.position}
+          intensity={light.intensity}
+        />
+      ))}
+    </>
+  )
+}
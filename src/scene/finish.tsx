@@ -0,0 +1,70 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { LANE_WIDTH, SPAWN_Z } from '../game/constants'
+import type { SceneSource } from './source'
+
+const FINISH_COLOR = '#ffdd00'
+const CHECKER_SIZE = 0.5
+const STRIP_DEPTH = 1
+const GATE_HEIGHT = 4
+const POST_SIZE = 0.2
+
+// Checkered strip across the track where a course ends, under a glowing gate. Only
+// courses have one, and it comes into view with the obstacles.
+export function FinishLine({ source }: { source: SceneSource }) {
+  const groupRef = useRef<THREE.Group>(null!)
+  const stripRef = useRef<THREE.Mesh>(null!)
+  const beamRef = useRef<THREE.Mesh>(null!)
+  const leftRef = useRef<THREE.Mesh>(null!)
+  const rightRef = useRef<THREE.Mesh>(null!)
+  const shownWidth = useRef(0)
+
+  const checker = useMemo(() => {
+    const light = [255, 255, 255, 255]
+    const dark = [10, 10, 15, 255]
+    const texture = new THREE.DataTexture(new Uint8Array([...light, ...dark, ...dark, ...light]), 2, 2)
+    texture.magFilter = THREE.NearestFilter
+    texture.wrapS = THREE.RepeatWrapping
+    texture.wrapT = THREE.RepeatWrapping
+    texture.needsUpdate = true
+    return texture
+  }, [])
+  useEffect(() => () => checker.dispose(), [checker])
+
+  useFrame(() => {
+    const { course, distance } = source.simulation.current
+    const z = course ? distance - course.length : SPAWN_Z
+    groupRef.current.visible = z > SPAWN_Z
+    groupRef.current.position.z = z
+
+    // Fit the track, which only changes between courses
+    const width = course ? course.laneCount * LANE_WIDTH : 0
+    if (width === shownWidth.current) return
+    shownWidth.current = width
+    stripRef.current.scale.x = width
+    beamRef.current.scale.x = width + POST_SIZE
+    leftRef.current.position.x = -width / 2
+    rightRef.current.position.x = width / 2
+    checker.repeat.set(width / CHECKER_SIZE / 2, STRIP_DEPTH / CHECKER_SIZE / 2)
+  })
+
+  return (
+    <group ref={groupRef} visible={false}>
+      <mesh ref={stripRef} rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, 0]}>
+        <planeGeometry args={[1, STRIP_DEPTH]} />
+        <meshBasicMaterial map={checker} />
+      </mesh>
+      {[leftRef, rightRef].map((ref, i) => (
+        <mesh key={i} ref={ref} position={[0, GATE_HEIGHT / 2, 0]}>
+          <boxGeometry args={[POST_SIZE, GATE_HEIGHT, POST_SIZE]} />
+          <meshStandardMaterial color={FINISH_COLOR} emissive={FINISH_COLOR} emissiveIntensity={1.5} />
+        </mesh>
+      ))}
+      <mesh ref={beamRef} position={[0, GATE_HEIGHT, 0]}>
+        <boxGeometry args={[1, POST_SIZE, POST_SIZE]} />
+        <meshStandardMaterial color={FINISH_COLOR} emissive={FINISH_COLOR} emissiveIntensity={1.5} />
+      </mesh>
+    </group>
+  )
+}
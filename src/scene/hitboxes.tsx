@@ -0,0 +1,81 @@
+import { useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { PLAYER_SIZE } from '../game/constants'
+import { laneX } from '../game/lanes'
+import { OBSTACLE_HITBOXES, playerBounds, type Hitbox } from '../game/physics'
+import { OBSTACLE_TYPES, type ObstacleType } from '../game/types'
+import { InstancedParts, partOffset, type InstancePart, type PlaceInstances } from './InstancedParts'
+import type { SceneSource } from './source'
+
+const HITBOX_POOL_SIZE = 128
+const HITBOX_COLOR = '#00ff00'
+
+function hitboxGeometry(hitbox: Hitbox): { geometry: THREE.BufferGeometry, offset?: THREE.Matrix4 } {
+  switch (hitbox.shape) {
+    case 'doubleCone': {
+      const { radius } = hitbox
+      const outline = [new THREE.Vector2(0, -radius), new THREE.Vector2(radius, 0), new THREE.Vector2(0, radius)]
+      return { geometry: new THREE.LatheGeometry(outline, 16) }
+    }
+    case 'cone':
+      return {
+        geometry: new THREE.ConeGeometry(hitbox.radius, hitbox.height, 16),
+        offset: partOffset([0, 0, 0], [Math.PI, 0, 0])
+      }
+    case 'torus':
+      return { geometry: new THREE.TorusGeometry(hitbox.radius, hitbox.tube, 8, 32) }
+    case 'box':
+      return { geometry: new THREE.BoxGeometry(...hitbox.size) }
+  }
+}
+
+function HitboxPool({ type, source }: { type: ObstacleType, source: SceneSource }) {
+  const parts = useMemo<InstancePart[]>(() => [{
+    ...hitboxGeometry(OBSTACLE_HITBOXES[type]),
+    material: new THREE.MeshBasicMaterial({ color: HITBOX_COLOR, wireframe: true })
+  }], [type])
+
+  const place: PlaceInstances = (dummy, add) => {
+    const { y } = OBSTACLE_HITBOXES[type]
+    for (const obstacle of source.simulation.current.obstacles) {
+      if (obstacle.type !== type || !obstacle.solid) continue
+      dummy.position.set(obstacle.x, y + obstacle.lift, obstacle.z)
+      dummy.rotation.set(0, 0, 0)
+      add()
+    }
+  }
+
+  return <InstancedParts parts={parts} capacity={HITBOX_POOL_SIZE} place={place} />
+}
+
+// The player's hitbox sits at its lane, not where the cube is easing towards
+function PlayerHitbox({ source }: { source: SceneSource }) {
+  const ref = useRef<THREE.Mesh>(null!)
+
+  useFrame(() => {
+    const { player } = source.simulation.current
+    const { bottom, top } = playerBounds(player)
+    ref.current.position.set(laneX(player.lane, player.laneCount), (bottom + top) / 2, 0)
+    ref.current.scale.set(1, (top - bottom) / PLAYER_SIZE, 1)
+  })
+
+  return (
+    <mesh ref={ref}>
+      <boxGeometry args={[PLAYER_SIZE, PLAYER_SIZE, PLAYER_SIZE]} />
+      <meshBasicMaterial color={HITBOX_COLOR} wireframe />
+    </mesh>
+  )
+}
+
+// Debug wireframes of every collision shape, drawn where the simulation tests them
+export function Hitboxes({ source }: { source: SceneSource }) {
+  return (
+    <>
+      <PlayerHitbox source={source} />
+      {OBSTACLE_TYPES.map(type => (
+        <HitboxPool key={type} type={type} source={source} />
+      ))}
+    </>
+  )
+}
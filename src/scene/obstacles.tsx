@@ -0,0 +1,212 @@
+import { useMemo } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { OBSTACLE_HITBOXES, type Hitbox } from '../game/physics'
+import { OBSTACLE_TYPES, type ObstacleType } from '../game/types'
+import { InstancedParts, partOffset, type InstancePart, type PlaceInstances } from './InstancedParts'
+import type { SceneSource } from './source'
+
+// Most obstacles of one type that can be on screen at once
+const OBSTACLE_POOL_SIZE = 128
+
+type HitboxOf<S extends Hitbox['shape']> = Extract<Hitbox, { shape: S }>
+
+// Geometry and materials for each obstacle type, tinted every frame from the biome.
+// Solid parts are sized from the hitboxes so what you see is what you hit.
+function createParts(type: ObstacleType): { parts: InstancePart[], tint: (color: string, time: number) => void } {
+  switch (type) {
+    case 'crystal': {
+      const { radius } = OBSTACLE_HITBOXES.crystal as HitboxOf<'doubleCone'>
+      const core = new THREE.MeshStandardMaterial({ emissiveIntensity: 1.5, metalness: 0.8, roughness: 0.2, transparent: true, opacity: 0.9 })
+      const shell = new THREE.MeshBasicMaterial({ transparent: true, opacity: 0.1, wireframe: true })
+      return {
+        parts: [
+          { geometry: new THREE.OctahedronGeometry(radius, 0), material: core, castShadow: true },
+          { geometry: new THREE.OctahedronGeometry(radius, 0), material: shell, offset: partOffset([0, 0, 0], [0, 0, 0], 1.3) }
+        ],
+        tint: (color) => {
+          core.color.set(color)
+          core.emissive.set(color)
+          shell.color.set(color)
+        }
+      }
+    }
+    case 'spike': {
+      const { radius, height } = OBSTACLE_HITBOXES.spike as HitboxOf<'cone'>
+      const outer = new THREE.MeshStandardMaterial({ emissiveIntensity: 1.5, metalness: 0.9, roughness: 0.1 })
+      const inner = new THREE.MeshStandardMaterial({ emissiveIntensity: 1, metalness: 0.9, roughness: 0.1 })
+      return {
+        parts: [
+          { geometry: new THREE.ConeGeometry(radius, height, 4), material: outer, castShadow: true },
+          { geometry: new THREE.ConeGeometry(0.3, 0.8, 4), material: inner, offset: partOffset([0, -0.3, 0], [Math.PI, 0, 0]) }
+        ],
+        tint: (color) => {
+          outer.color.set(color)
+          outer.emissive.set(color)
+          // The inner cone is a darker shade of the tint
+          inner.color.set(color).multiplyScalar(0.6)
+          inner.emissive.copy(inner.color)
+        }
+      }
+    }
+    case 'ring': {
+      const { radius, tube } = OBSTACLE_HITBOXES.ring as HitboxOf<'torus'>
+      const material = new THREE.MeshStandardMaterial({ emissiveIntensity: 2, metalness: 0.95, roughness: 0.05 })
+      return {
+        parts: [{ geometry: new THREE.TorusGeometry(radius, tube, 8, 32), material }],
+        tint: (color) => {
+          material.color.set(color)
+          material.emissive.set(color)
+        }
+      }
+    }
+    case 'barrier': {
+      // Beam along the bottom of the hitbox and the field filling the rest
+      const [width, height] = (OBSTACLE_HITBOXES.barrier as HitboxOf<'box'>).size
+      const beam = new THREE.MeshStandardMaterial({ metalness: 0.8, roughness: 0.2 })
+      const field = new THREE.MeshBasicMaterial({ transparent: true, opacity: 0.12 })
+      return {
+        parts: [
+          { geometry: new THREE.BoxGeometry(width, 0.3, 0.3), material: beam, offset: partOffset([0, 0.15 - height / 2, 0]), castShadow: true },
+          { geometry: new THREE.BoxGeometry(width, height - 0.3, 0.1), material: field, offset: partOffset([0, 0.15, 0]) }
+        ],
+        tint: (color, time) => {
+          beam.color.set(color)
+          beam.emissive.set(color)
+          beam.emissiveIntensity = 2 + Math.sin(time * 8) * 0.5
+          field.color.set(color)
+        }
+      }
+    }
+    case 'laser': {
+      // Emitter posts standing on the track either side of the beam. The beam itself comes
+      // and goes, so LaserBeams draws it separately.
+      const { y, size: [width] } = OBSTACLE_HITBOXES.laser as HitboxOf<'box'>
+      const post = new THREE.MeshStandardMaterial({ emissiveIntensity: 1, metalness: 0.8, roughness: 0.2 })
+      const postAt = (x: number): InstancePart => ({
+        geometry: new THREE.BoxGeometry(0.15, 1, 0.15),
+        material: post,
+        offset: partOffset([x, 0.5 - y, 0]),
+        castShadow: true
+      })
+      return {
+        parts: [postAt(-width / 2), postAt(width / 2)],
+        tint: (color) => {
+          post.color.set(color)
+          post.emissive.set(color)
+        }
+      }
+    }
+  }
+}
+
+// Per-type spin, applied on top of the obstacle's position. Spins never change the shape
+// the obstacle fills, so they can stop for reduced motion without misleading anyone.
+function animate(type: ObstacleType, dummy: THREE.Object3D, rotation: number, time: number) {
+  switch (type) {
+    case 'crystal':
+      dummy.rotation.set(0, rotation + time, 0)
+      break
+    case 'spike':
+      dummy.rotation.set(0, time * 2, Math.PI)
+      break
+    case 'ring':
+      // Only in its own plane, so the hole always faces the player
+      dummy.rotation.set(0, 0, rotation + time)
+      break
+    case 'barrier':
+    case 'laser':
+      dummy.rotation.set(0, 0, 0)
+      break
+  }
+}
+
+function ObstaclePool({
+  type,
+  source,
+  palette,
+  reducedMotion
+}: {
+  type: ObstacleType
+  source: SceneSource
+  palette: Record<ObstacleType, string> | null
+  reducedMotion: boolean
+}) {
+  const { parts, tint } = useMemo(() => createParts(type), [type])
+
+  useFrame((state) => {
+    tint(palette?.[type] ?? source.look.current.obstacles[type], reducedMotion ? 0 : state.clock.elapsedTime)
+  })
+
+  // Positions come from the obstacles' behaviors, so they move with the simulation even
+  // with reduced motion
+  const place: PlaceInstances = (dummy, add, time) => {
+    const { y } = OBSTACLE_HITBOXES[type]
+    for (const obstacle of source.simulation.current.obstacles) {
+      if (obstacle.type !== type) continue
+      dummy.position.set(obstacle.x, y + obstacle.lift, obstacle.z)
+      animate(type, dummy, obstacle.rotation, time)
+      add()
+    }
+  }
+
+  return <InstancedParts parts={parts} capacity={OBSTACLE_POOL_SIZE} place={place} still={reducedMotion} />
+}
+
+// Beams of the laser gates that are switched on, flickering in the moments before they
+// come back on. The flicker stops for reduced motion, leaving the ground warning.
+function LaserBeams({
+  source,
+  palette,
+  reducedMotion
+}: {
+  source: SceneSource
+  palette: Record<ObstacleType, string> | null
+  reducedMotion: boolean
+}) {
+  const { parts, beam } = useMemo(() => {
+    const { size } = OBSTACLE_HITBOXES.laser as HitboxOf<'box'>
+    const beam = new THREE.MeshBasicMaterial({ transparent: true, opacity: 0.85 })
+    const parts: InstancePart[] = [{ geometry: new THREE.BoxGeometry(...size), material: beam }]
+    return { parts, beam }
+  }, [])
+
+  useFrame(() => {
+    beam.color.set(palette?.laser ?? source.look.current.obstacles.laser)
+  })
+
+  const place: PlaceInstances = (dummy, add, time) => {
+    const { y } = OBSTACLE_HITBOXES.laser
+    for (const obstacle of source.simulation.current.obstacles) {
+      if (obstacle.type !== 'laser') continue
+      const flicker = obstacle.warning !== null && Math.sin(time * 40) > 0
+      if (!obstacle.solid && !flicker) continue
+      dummy.position.set(obstacle.x, y + obstacle.lift, obstacle.z)
+      dummy.rotation.set(0, 0, 0)
+      add()
+    }
+  }
+
+  return <InstancedParts parts={parts} capacity={OBSTACLE_POOL_SIZE} place={place} still={reducedMotion} />
+}
+
+// Every obstacle in the run, drawn with one instanced pool per type. A fixed palette
+// replaces the biome's hazard colors.
+export function Obstacles({
+  source,
+  palette,
+  reducedMotion
+}: {
+  source: SceneSource
+  palette: Record<ObstacleType, string> | null
+  reducedMotion: boolean
+}) {
+  return (
+    <>
+      {OBSTACLE_TYPES.map(type => (
+        <ObstaclePool key={type} type={type} source={source} palette={palette} reducedMotion={reducedMotion} />
+      ))}
+      <LaserBeams source={source} palette={palette} reducedMotion={reducedMotion} />
+    </>
+  )
+}
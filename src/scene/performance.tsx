@@ -0,0 +1,48 @@
+import { useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { PerformanceMonitor } from '@react-three/drei'
+import { AUTO_QUALITY_FPS } from './quality'
+
+// Samples frame times and asks for a cheaper or richer preset to stay near the target FPS.
+// After a few back-and-forth changes it settles and stops asking.
+export function AutoQuality({ onStep }: { onStep: (direction: 1 | -1) => void }) {
+  return (
+    <PerformanceMonitor
+      bounds={() => AUTO_QUALITY_FPS}
+      flipflops={4}
+      onIncline={() => onStep(1)}
+      onDecline={() => onStep(-1)}
+    />
+  )
+}
+
+export interface PerfStats {
+  fps: number
+  drawCalls: number
+  triangles: number
+}
+
+// How often the overlay is refreshed
+const PERF_SAMPLE_MS = 500
+
+// Reports FPS and the renderer's draw calls and triangles from the last frame
+export function PerfProbe({ onSample }: { onSample: (stats: PerfStats) => void }) {
+  const gl = useThree(state => state.gl)
+  const sample = useRef({ start: performance.now(), frames: 0 })
+
+  useFrame(() => {
+    const now = performance.now()
+    sample.current.frames++
+    const elapsed = now - sample.current.start
+    if (elapsed < PERF_SAMPLE_MS) return
+
+    onSample({
+      fps: Math.round((sample.current.frames * 1000) / elapsed),
+      drawCalls: gl.info.render.calls,
+      triangles: gl.info.render.triangles
+    })
+    sample.current = { start: now, frames: 0 }
+  })
+
+  return null
+}
@@ -0,0 +1,83 @@
+import { useMemo } from 'react'
+import * as THREE from 'three'
+import type { PickupType } from '../game/types'
+import { InstancedParts, partOffset, type InstancePart, type PlaceInstances } from './InstancedParts'
+import { POWER_UP_COLORS, SHARD_COLOR } from './colors'
+import type { SceneSource } from './source'
+
+const SHARD_POOL_SIZE = 64
+const POWER_UP_POOL_SIZE = 8
+
+function glowing(color: string) {
+  return new THREE.MeshStandardMaterial({ color, emissive: color, emissiveIntensity: 2, metalness: 0.8, roughness: 0.2 })
+}
+
+// Shards are small spinning gems; power-ups are a glowing shell around a symbol for their effect
+function createParts(type: PickupType): InstancePart[] {
+  if (type === 'shard') {
+    return [{ geometry: new THREE.TetrahedronGeometry(0.3, 0), material: glowing(SHARD_COLOR) }]
+  }
+
+  const color = POWER_UP_COLORS[type]
+  const shell: InstancePart = {
+    geometry: new THREE.SphereGeometry(0.5, 16, 16),
+    material: new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.15 })
+  }
+  switch (type) {
+    case 'shield': {
+      const material = glowing(color)
+      material.wireframe = true
+      return [shell, { geometry: new THREE.IcosahedronGeometry(0.3, 0), material }]
+    }
+    case 'magnet':
+      return [
+        shell,
+        { geometry: new THREE.TorusGeometry(0.25, 0.08, 8, 16, Math.PI), material: glowing(color), offset: partOffset([0, 0, 0], [0, 0, Math.PI]) }
+      ]
+    case 'slowmo':
+      return [
+        shell,
+        { geometry: new THREE.ConeGeometry(0.2, 0.3, 8), material: glowing(color), offset: partOffset([0, 0.15, 0], [Math.PI, 0, 0]) },
+        { geometry: new THREE.ConeGeometry(0.2, 0.3, 8), material: glowing(color), offset: partOffset([0, -0.15, 0]) }
+      ]
+  }
+}
+
+function PickupPool({ type, source, reducedMotion }: { type: PickupType, source: SceneSource, reducedMotion: boolean }) {
+  const parts = useMemo(() => createParts(type), [type])
+
+  const place: PlaceInstances = (dummy, add, time) => {
+    for (const pickup of source.simulation.current.pickups) {
+      if (pickup.type !== type) continue
+      dummy.position.set(pickup.x, pickup.y, pickup.z)
+      if (type === 'shard') {
+        dummy.rotation.set(0, time * 3 + pickup.id, 0)
+      } else {
+        dummy.position.y += Math.sin(time * 4) * 0.15
+        dummy.rotation.set(0, time * 1.5, 0)
+      }
+      add()
+    }
+  }
+
+  return (
+    <InstancedParts
+      parts={parts}
+      capacity={type === 'shard' ? SHARD_POOL_SIZE : POWER_UP_POOL_SIZE}
+      place={place}
+      still={reducedMotion}
+    />
+  )
+}
+
+const PICKUP_TYPES: PickupType[] = ['shard', 'shield', 'magnet', 'slowmo']
+
+export function Pickups({ source, reducedMotion }: { source: SceneSource, reducedMotion: boolean }) {
+  return (
+    <>
+      {PICKUP_TYPES.map(type => (
+        <PickupPool key={type} type={type} source={source} reducedMotion={reducedMotion} />
+      ))}
+    </>
+  )
+}
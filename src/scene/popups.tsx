@@ -0,0 +1,76 @@
+import { useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Text } from '@react-three/drei'
+import type * as THREE from 'three'
+import { BONUS_DISPLAY_TICKS } from '../game/constants'
+import { BONUS_COLORS, BONUS_LABELS, COMBO_COLOR } from './colors'
+import type { SceneSource } from './source'
+
+// troika-three-text mesh behind drei's Text, updated without re-rendering
+type TextMesh = THREE.Mesh & { text: string, color: string, fillOpacity: number, outlineOpacity: number, sync: () => void }
+
+// Most bonus popups shown at once; older ones are dropped first
+const POPUP_POOL_SIZE = 4
+
+function setText(mesh: TextMesh, text: string) {
+  if (mesh.text === text) return
+  mesh.text = text
+  mesh.sync()
+}
+
+// Bonus points rising from where they were earned, and the combo multiplier under the score
+export function ScorePopups({ source, reducedMotion }: { source: SceneSource, reducedMotion: boolean }) {
+  const popupRefs = useRef<TextMesh[]>([])
+  const multiplierRef = useRef<TextMesh>(null!)
+
+  useFrame(() => {
+    const { bonuses, combo, tick } = source.simulation.current
+    const shown = bonuses.slice(-POPUP_POOL_SIZE)
+
+    popupRefs.current.forEach((mesh, i) => {
+      const bonus = shown[i]
+      mesh.visible = bonus !== undefined
+      if (!bonus) return
+      const age = (tick - bonus.tick) / BONUS_DISPLAY_TICKS
+      setText(mesh, `+${bonus.points} ${BONUS_LABELS[bonus.type]}`)
+      mesh.color = BONUS_COLORS[bonus.type]
+      mesh.position.set(bonus.x, 2 + (reducedMotion ? 0 : age * 1.5), -1)
+      mesh.fillOpacity = mesh.outlineOpacity = 1 - age
+    })
+
+    multiplierRef.current.visible = combo.multiplier > 1
+    setText(multiplierRef.current, `x${combo.multiplier} COMBO`)
+  })
+
+  return (
+    <>
+      {Array.from({ length: POPUP_POOL_SIZE }, (_, i) => (
+        <Text
+          key={i}
+          ref={(ref: TextMesh | null) => { if (ref) popupRefs.current[i] = ref }}
+          visible={false}
+          fontSize={0.4}
+          anchorX="center"
+          anchorY="middle"
+          outlineWidth={0.02}
+          outlineColor="#0a0a0f"
+        >
+          {''}
+        </Text>
+      ))}
+      <Text
+        ref={multiplierRef}
+        visible={false}
+        position={[0, 4.8, -15]}
+        fontSize={0.8}
+        color={COMBO_COLOR}
+        anchorX="center"
+        anchorY="middle"
+        outlineWidth={0.04}
+        outlineColor="#0a0a0f"
+      >
+        x1 COMBO
+      </Text>
+    </>
+  )
+}
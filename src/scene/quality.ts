@@ -0,0 +1,47 @@
+import type { CameraMode } from './camera'
+
+// Rendering quality presets, from cheapest to most expensive
+export type QualityLevel = 'low' | 'medium' | 'high' | 'ultra'
+
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high', 'ultra']
+
+export interface QualityPreset {
+  // Shadow map resolution; 0 turns shadows off
+  shadowMapSize: number
+  stars: number
+  decorations: number
+  trail: boolean
+  // Device pixel ratio range, clamped to the screen's own ratio
+  dpr: [number, number]
+}
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  low: { shadowMapSize: 0, stars: 1000, decorations: 0, trail: false, dpr: [0.5, 1] },
+  medium: { shadowMapSize: 512, stars: 2500, decorations: 25, trail: true, dpr: [1, 1.5] },
+  high: { shadowMapSize: 1024, stars: 5000, decorations: 50, trail: true, dpr: [1, 2] },
+  ultra: { shadowMapSize: 2048, stars: 8000, decorations: 100, trail: true, dpr: [1, 3] }
+}
+
+// Auto mode steps down below the lower bound and back up above the upper one
+export const AUTO_QUALITY_FPS: [number, number] = [50, 58]
+
+export interface GraphicsSettings {
+  quality: QualityLevel | 'auto'
+  showPerf: boolean
+  // Debug view of the player's and obstacles' collision shapes
+  showHitboxes: boolean
+  camera: CameraMode
+}
+
+export const DEFAULT_GRAPHICS_SETTINGS: GraphicsSettings = {
+  quality: 'high',
+  showPerf: false,
+  showHitboxes: false,
+  camera: 'chase'
+}
+
+// The next preset up or down, staying at the ends of the range
+export function stepQuality(level: QualityLevel, direction: 1 | -1): QualityLevel {
+  const index = QUALITY_LEVELS.indexOf(level) + direction
+  return QUALITY_LEVELS[Math.max(0, Math.min(QUALITY_LEVELS.length - 1, index))]
+}
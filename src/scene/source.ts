@@ -0,0 +1,13 @@
+import type { MutableRefObject } from 'react'
+import type { BiomeLook } from '../game/biomes'
+import type { Simulation } from '../game/simulation'
+
+// Live state the scene draws from. Components read it inside useFrame rather than
+// receiving it as props, so a simulation tick never re-renders the scene.
+export interface SceneSource {
+  simulation: MutableRefObject<Simulation>
+  // The personal best being raced, if any
+  ghost: MutableRefObject<Simulation | null>
+  // Biome look for the current frame, refreshed before anything else draws
+  look: MutableRefObject<BiomeLook>
+}
@@ -0,0 +1,29 @@
+import { useMemo } from 'react'
+import * as THREE from 'three'
+import { InstancedParts, partOffset, type InstancePart, type PlaceInstances } from './InstancedParts'
+import type { SceneSource } from './source'
+
+const WARNING_POOL_SIZE = 64
+const WARNING_COLOR = '#ffdd00'
+
+// Flashing square on the ground wherever an obstacle is about to switch lanes, land or
+// switch on. These are part of the game rather than an accessibility aid, so they always
+// show; with reduced motion they hold steady instead of flashing.
+export function Warnings({ source, reducedMotion }: { source: SceneSource, reducedMotion: boolean }) {
+  const parts = useMemo<InstancePart[]>(() => [{
+    geometry: new THREE.RingGeometry(0.9, 1.1, 4, 1, Math.PI / 4),
+    material: new THREE.MeshBasicMaterial({ color: WARNING_COLOR, transparent: true, opacity: 0.9, side: THREE.DoubleSide }),
+    offset: partOffset([0, 0.03, 0], [-Math.PI / 2, 0, 0])
+  }], [])
+
+  const place: PlaceInstances = (dummy, add, time) => {
+    if (Math.sin(time * 12) < -0.5) return
+    for (const obstacle of source.simulation.current.obstacles) {
+      if (obstacle.warning === null) continue
+      dummy.position.set(obstacle.warning, 0, obstacle.z)
+      add()
+    }
+  }
+
+  return <InstancedParts parts={parts} capacity={WARNING_POOL_SIZE} place={place} still={reducedMotion} />
+}
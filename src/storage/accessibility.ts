@@ -0,0 +1,16 @@
+import { DEFAULT_ACCESSIBILITY_SETTINGS, type AccessibilitySettings } from '../accessibility/settings'
+import { loadStore, saveStore, type StoreDefinition } from './store'
+
+const ACCESSIBILITY_STORE: StoreDefinition<AccessibilitySettings> = {
+  key: 'void-runner:accessibility',
+  version: 1,
+  defaults: () => ({ ...DEFAULT_ACCESSIBILITY_SETTINGS })
+}
+
+export function loadAccessibilitySettings(): AccessibilitySettings {
+  return { ...DEFAULT_ACCESSIBILITY_SETTINGS, ...loadStore(ACCESSIBILITY_STORE) }
+}
+
+export function saveAccessibilitySettings(settings: AccessibilitySettings) {
+  saveStore(ACCESSIBILITY_STORE, settings)
+}
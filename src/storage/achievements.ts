@@ -0,0 +1,21 @@
+import { emptyTotals, rotateMissions, type AchievementProgress } from '../achievements/tracker'
+import { loadStore, saveStore, type StoreDefinition } from './store'
+
+const ACHIEVEMENTS_STORE: StoreDefinition<AchievementProgress> = {
+  key: 'void-runner:achievements',
+  version: 1,
+  defaults: () => ({ unlocked: {}, totals: emptyTotals(), missions: [], nextMissionId: 0 })
+}
+
+// Totals gain a zero for any metric added since the progress was saved,
+// and missions are topped up on first load
+export function loadAchievements(): AchievementProgress {
+  const progress = loadStore(ACHIEVEMENTS_STORE)
+  progress.totals = { ...emptyTotals(), ...progress.totals }
+  rotateMissions(progress)
+  return progress
+}
+
+export function saveAchievements(progress: AchievementProgress) {
+  saveStore(ACHIEVEMENTS_STORE, progress)
+}
@@ -0,0 +1,16 @@
+import { DEFAULT_AUDIO_SETTINGS, type AudioSettings } from '../audio/engine'
+import { loadStore, saveStore, type StoreDefinition } from './store'
+
+const AUDIO_STORE: StoreDefinition<AudioSettings> = {
+  key: 'void-runner:audio',
+  version: 1,
+  defaults: () => ({ ...DEFAULT_AUDIO_SETTINGS })
+}
+
+export function loadAudioSettings(): AudioSettings {
+  return { ...DEFAULT_AUDIO_SETTINGS, ...loadStore(AUDIO_STORE) }
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  saveStore(AUDIO_STORE, settings)
+}
@@ -0,0 +1,23 @@
+import { DEFAULT_BINDINGS, type InputBindings } from '../input/bindings'
+import { loadStore, saveStore, type StoreDefinition } from './store'
+
+const BINDINGS_STORE: StoreDefinition<InputBindings> = {
+  key: 'void-runner:bindings',
+  version: 1,
+  defaults: () => structuredClone(DEFAULT_BINDINGS)
+}
+
+export function loadBindings(): InputBindings {
+  const saved = loadStore(BINDINGS_STORE)
+  // Fill in actions added after the bindings were saved
+  return {
+    ...DEFAULT_BINDINGS,
+    ...saved,
+    keyboard: { ...DEFAULT_BINDINGS.keyboard, ...saved.keyboard },
+    gamepad: { ...DEFAULT_BINDINGS.gamepad, ...saved.gamepad }
+  }
+}
+
+export function saveBindings(bindings: InputBindings) {
+  saveStore(BINDINGS_STORE, bindings)
+}
@@ -0,0 +1,50 @@
+import type { Course } from '../game/course'
+import { loadStore, saveStore, type StoreDefinition } from './store'
+
+// Courses built in the editor, and the best score for finishing each. Every finish takes
+// the same time, since courses run at a fixed speed, so the score is what's ranked.
+export interface CourseLibrary {
+  courses: Course[]
+  bestScores: Record<string, number>
+}
+
+const COURSES_STORE: StoreDefinition<CourseLibrary> = {
+  key: 'void-runner:courses',
+  version: 1,
+  defaults: () => ({ courses: [], bestScores: {} })
+}
+
+export function loadCourses() {
+  return loadStore(COURSES_STORE)
+}
+
+// Everything a score depends on
+function layoutOf({ id, name, ...layout }: Course) {
+  return JSON.stringify(layout)
+}
+
+// Save the edited courses, forgetting best scores for any that were deleted or re-laid,
+// since a score only counts for the layout it was set on
+export function saveCourses(courses: Course[]): CourseLibrary {
+  const { courses: saved, bestScores } = loadCourses()
+  const kept: Record<string, number> = {}
+  for (const course of courses) {
+    const before = saved.find(other => other.id === course.id)
+    if (bestScores[course.id] !== undefined && before && layoutOf(before) === layoutOf(course)) {
+      kept[course.id] = bestScores[course.id]
+    }
+  }
+  const next = { courses, bestScores: kept }
+  saveStore(COURSES_STORE, next)
+  return next
+}
+
+// Keep a finished run's score if it beats the course's best
+export function recordCourseScore(id: string, score: number): CourseLibrary {
+  const library = loadCourses()
+  const best = library.bestScores[id]
+  if (best !== undefined && best >= score) return library
+  const next = { ...library, bestScores: { ...library.bestScores, [id]: score } }
+  saveStore(COURSES_STORE, next)
+  return next
+}
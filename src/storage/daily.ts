@@ -0,0 +1,50 @@
+import { previousDate, type DailyResult } from '../game/daily'
+import { loadStore, saveStore, type StoreDefinition } from './store'
+
+// Daily Void attempts and the streak of consecutive days played
+export interface DailyProgress {
+  // Day of the last scored attempt, recorded when it starts so a reload can't retry it
+  lastDate: string | null
+  // Outcome of that attempt, or null if it never finished
+  result: DailyResult | null
+  streak: number
+  bestStreak: number
+}
+
+const DAILY_STORE: StoreDefinition<DailyProgress> = {
+  key: 'void-runner:daily',
+  version: 1,
+  defaults: () => ({ lastDate: null, result: null, streak: 0, bestStreak: 0 })
+}
+
+export function loadDaily() {
+  return loadStore(DAILY_STORE)
+}
+
+export function hasPlayedDaily(progress: DailyProgress, date: string) {
+  return progress.lastDate === date
+}
+
+// The streak still stands if the last attempt was today or yesterday
+export function currentStreak(progress: DailyProgress, date: string) {
+  const { lastDate } = progress
+  return lastDate === date || (lastDate !== null && lastDate === previousDate(date)) ? progress.streak : 0
+}
+
+// Use up today's scored attempt and extend the streak
+export function startDailyAttempt(date: string): DailyProgress {
+  const progress = loadDaily()
+  if (hasPlayedDaily(progress, date)) return progress
+  const streak = currentStreak(progress, date) + 1
+  const next = { lastDate: date, result: null, streak, bestStreak: Math.max(progress.bestStreak, streak) }
+  saveStore(DAILY_STORE, next)
+  return next
+}
+
+export function recordDailyResult(result: DailyResult): DailyProgress {
+  const progress = loadDaily()
+  if (progress.lastDate !== result.date || progress.result) return progress
+  const next = { ...progress, result }
+  saveStore(DAILY_STORE, next)
+  return next
+}
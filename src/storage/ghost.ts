@@ -0,0 +1,33 @@
+import { decodeReplay, encodeReplay } from '../game/replay'
+import type { Replay } from '../game/types'
+import { loadStore, saveStore, type StoreDefinition } from './store'
+
+// The personal best is kept as a replay code, so the ghost is rebuilt by re-simulating it
+interface GhostData {
+  best: string | null
+}
+
+const GHOST_STORE: StoreDefinition<GhostData> = {
+  key: 'void-runner:ghost',
+  version: 1,
+  defaults: () => ({ best: null })
+}
+
+// The saved best run, or null if there is none or it was recorded under older rules
+export function loadGhost(): Replay | null {
+  const { best } = loadStore(GHOST_STORE)
+  if (!best) return null
+  try {
+    return decodeReplay(best)
+  } catch {
+    return null
+  }
+}
+
+// Keep the run if it beats the saved best, and return whichever is now the best
+export function recordGhostRun(replay: Replay): Replay {
+  const best = loadGhost()
+  if (best && best.score >= replay.score) return best
+  saveStore(GHOST_STORE, { best: encodeReplay(replay) })
+  return replay
+}
@@ -0,0 +1,16 @@
+import { DEFAULT_GRAPHICS_SETTINGS, type GraphicsSettings } from '../scene/quality'
+import { loadStore, saveStore, type StoreDefinition } from './store'
+
+const GRAPHICS_STORE: StoreDefinition<GraphicsSettings> = {
+  key: 'void-runner:graphics',
+  version: 1,
+  defaults: () => ({ ...DEFAULT_GRAPHICS_SETTINGS })
+}
+
+export function loadGraphicsSettings(): GraphicsSettings {
+  return { ...DEFAULT_GRAPHICS_SETTINGS, ...loadStore(GRAPHICS_STORE) }
+}
+
+export function saveGraphicsSettings(settings: GraphicsSettings) {
+  saveStore(GRAPHICS_STORE, settings)
+}
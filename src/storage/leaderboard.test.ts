@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { addLeaderboardEntry, loadLeaderboard } from './leaderboard'
+
+const KEY = 'void-runner:leaderboard'
+
+describe('leaderboard', () => {
+  let items: Map<string, string>
+  beforeEach(() => {
+    items = new Map()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value)
+    })
+  })
+
+  it('keeps version 1 boards as legacy entries', () => {
+    const old = { initials: 'ABC', score: 900, distance: 120, date: '2026-01-01T00:00:00.000Z', killedBy: 'spike' }
+    items.set(KEY, JSON.stringify({ version: 1, data: { boards: { endless: [old, { initials: 'BAD' }] } } }))
+
+    expect(loadLeaderboard('endless')).toEqual([{ ...old, legacy: true }])
+  })
+
+  it('ranks new runs alongside legacy ones', () => {
+    const old = { initials: 'OLD', score: 500, distance: 80, date: '2026-01-01T00:00:00.000Z', killedBy: null }
+    items.set(KEY, JSON.stringify({ version: 1, data: { boards: { endless: [old] } } }))
+
+    const entry = { initials: 'new', score: 700, distance: 90, date: '2026-02-01T00:00:00.000Z', killedBy: null }
+    expect(addLeaderboardEntry('endless', entry)).toBe(1)
+    expect(loadLeaderboard('endless').map(({ initials, legacy }) => [initials, legacy])).toEqual([
+      ['NEW', undefined],
+      ['OLD', true]
+    ])
+  })
+})
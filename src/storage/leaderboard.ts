@@ -0,0 +1,76 @@
+import type { GameMode, ObstacleType } from '../game/types'
+import { loadStore, saveStore, type StoreDefinition } from './store'
+
+export const LEADERBOARD_SIZE = 10
+
+export interface LeaderboardEntry {
+  initials: string
+  score: number
+  distance: number
+  // ISO timestamp of when the run ended
+  date: string
+  killedBy: ObstacleType | null
+  // Set on runs scored under the old rules, before bonuses counted
+  legacy?: boolean
+}
+
+// Boards are kept per game mode so runs are only ranked against comparable runs
+interface LeaderboardData {
+  boards: Partial<Record<GameMode, LeaderboardEntry[]>>
+}
+
+function isEntry(value: unknown): value is LeaderboardEntry {
+  if (typeof value !== 'object' || value === null) return false
+  const entry = value as Record<string, unknown>
+  return typeof entry.initials === 'string' &&
+    typeof entry.score === 'number' &&
+    typeof entry.distance === 'number' &&
+    typeof entry.date === 'string'
+}
+
+// Version 2 scores distance and bonuses rather than ticks survived. Older runs stay on
+// their boards, marked as legacy so they aren't mistaken for runs under the new rules.
+function migrateFromV1(data: unknown): LeaderboardData {
+  const boards: LeaderboardData['boards'] = {}
+  const saved = typeof data === 'object' && data !== null ? (data as { boards?: unknown }).boards : null
+  if (typeof saved !== 'object' || saved === null) return { boards }
+  for (const [mode, entries] of Object.entries(saved)) {
+    if (!Array.isArray(entries)) continue
+    boards[mode as GameMode] = entries.filter(isEntry).map(entry => ({ ...entry, killedBy: entry.killedBy ?? null, legacy: true }))
+  }
+  return { boards }
+}
+
+const LEADERBOARD_STORE: StoreDefinition<LeaderboardData> = {
+  key: 'void-runner:leaderboard',
+  version: 2,
+  defaults: () => ({ boards: {} }),
+  migrations: { 1: migrateFromV1 }
+}
+
+export function loadLeaderboard(mode: GameMode): LeaderboardEntry[] {
+  return loadStore(LEADERBOARD_STORE).boards[mode] ?? []
+}
+
+export function qualifiesForLeaderboard(mode: GameMode, score: number) {
+  const board = loadLeaderboard(mode)
+  return score > 0 && (board.length < LEADERBOARD_SIZE || score > board[board.length - 1].score)
+}
+
+export function sanitizeInitials(value: string) {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3)
+}
+
+// Insert a run and return its 1-based rank, or null if it didn't make the board
+export function addLeaderboardEntry(mode: GameMode, entry: LeaderboardEntry) {
+  const data = loadStore(LEADERBOARD_STORE)
+  const board = [...(data.boards[mode] ?? []), { ...entry, initials: sanitizeInitials(entry.initials) }]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, LEADERBOARD_SIZE)
+
+  data.boards[mode] = board
+  saveStore(LEADERBOARD_STORE, data)
+
+  const rank = board.findIndex(candidate => candidate.date === entry.date && candidate.score === entry.score)
+  return rank === -1 ? null : rank + 1
+}
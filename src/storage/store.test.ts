@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { loadStore, saveStore, type StoreDefinition } from './store'
+
+// In-memory localStorage, fresh for every test
+function stubLocalStorage() {
+  const items = new Map<string, string>()
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  })
+  return items
+}
+
+interface Settings {
+  volume: number
+  muted: boolean
+}
+
+// v1 saved a 0-10 volume, v2 a 0-1 volume, and v3 added muting
+const SETTINGS_STORE: StoreDefinition<Settings> = {
+  key: 'test:settings',
+  version: 3,
+  defaults: () => ({ volume: 0.5, muted: false }),
+  migrations: {
+    1: data => ({ volume: (data as { volume: number }).volume / 10 }),
+    2: data => ({ ...(data as object), muted: false })
+  }
+}
+
+function saveRaw(items: Map<string, string>, version: number, data: unknown) {
+  items.set(SETTINGS_STORE.key, JSON.stringify({ version, data }))
+}
+
+describe('store', () => {
+  let items: Map<string, string>
+  beforeEach(() => {
+    items = stubLocalStorage()
+  })
+
+  it('falls back to the defaults when nothing is saved', () => {
+    expect(loadStore(SETTINGS_STORE)).toEqual({ volume: 0.5, muted: false })
+  })
+
+  it('round-trips saved data', () => {
+    saveStore(SETTINGS_STORE, { volume: 0.2, muted: true })
+    expect(loadStore(SETTINGS_STORE)).toEqual({ volume: 0.2, muted: true })
+  })
+
+  it('migrates old data through every version', () => {
+    saveRaw(items, 1, { volume: 8 })
+    expect(loadStore(SETTINGS_STORE)).toEqual({ volume: 0.8, muted: false })
+  })
+
+  it('falls back to the defaults for data it cannot read', () => {
+    items.set(SETTINGS_STORE.key, '{not json')
+    expect(loadStore(SETTINGS_STORE)).toEqual({ volume: 0.5, muted: false })
+    saveRaw(items, 4, { volume: 1, muted: true })
+    expect(loadStore(SETTINGS_STORE)).toEqual({ volume: 0.5, muted: false })
+    saveRaw(items, 0, { volume: 1 })
+    expect(loadStore(SETTINGS_STORE)).toEqual({ volume: 0.5, muted: false })
+  })
+
+  it('falls back to the defaults for data that is not an object', () => {
+    for (const data of [null, 3, 'loud', [1, 2]]) {
+      saveRaw(items, 3, data)
+      expect(loadStore(SETTINGS_STORE)).toEqual({ volume: 0.5, muted: false })
+    }
+    items.set(SETTINGS_STORE.key, 'null')
+    expect(loadStore(SETTINGS_STORE)).toEqual({ volume: 0.5, muted: false })
+  })
+
+  it('fills in fields missing from saved data', () => {
+    saveRaw(items, 3, { volume: 0.9 })
+    expect(loadStore(SETTINGS_STORE)).toEqual({ volume: 0.9, muted: false })
+  })
+
+  it('keeps working when saving fails', () => {
+    vi.stubGlobal('localStorage', {
+      setItem: () => {
+        throw new Error('QuotaExceededError')
+      }
+    })
+    expect(() => saveStore(SETTINGS_STORE, { volume: 1, muted: false })).not.toThrow()
+  })
+})
@@ -0,0 +1,50 @@
+// Versioned localStorage persistence. Each store saves `{ version, data }`; older data is
+// upgraded through its migrations, and anything unreadable falls back to the defaults.
+export interface StoreDefinition<T> {
+  key: string
+  version: number
+  defaults: () => T
+  // Upgrades keyed by the version they upgrade from, e.g. 1 turns v1 data into v2. Old
+  // data is whatever was saved back then, so each migration checks its shape first.
+  migrations?: Record<number, (data: unknown) => unknown>
+}
+
+interface SavedEnvelope {
+  version: number
+  data: unknown
+}
+
+export function loadStore<T>(store: StoreDefinition<T>): T {
+  let envelope: SavedEnvelope
+  try {
+    const raw = localStorage.getItem(store.key)
+    if (!raw) return store.defaults()
+    envelope = JSON.parse(raw)
+  } catch {
+    return store.defaults()
+  }
+
+  if (typeof envelope !== 'object' || envelope === null) return store.defaults()
+  let { version, data } = envelope
+  if (typeof version !== 'number' || version > store.version) return store.defaults()
+
+  while (version < store.version) {
+    const migrate = store.migrations?.[version]
+    if (!migrate) return store.defaults()
+    data = migrate(data)
+    version++
+  }
+  // Stores hold objects; anything else was corrupted, and fields a store gained since are
+  // filled in from the defaults
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return store.defaults()
+  return { ...store.defaults(), ...data } as T
+}
+
+export function saveStore<T>(store: StoreDefinition<T>, data: T) {
+  try {
+    const envelope: SavedEnvelope = { version: store.version, data }
+    localStorage.setItem(store.key, JSON.stringify(envelope))
+  } catch {
+    // Private browsing or a full quota; the game still works without persistence
+  }
+}